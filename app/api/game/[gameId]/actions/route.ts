@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleActionBatchRequest } from "@/lib/actionRequests";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+    const body = await request.json();
+
+    const { status, result } = await handleActionBatchRequest(gameId, body);
+    return NextResponse.json(result, { status });
+  } catch (error) {
+    console.error("Error in actions:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
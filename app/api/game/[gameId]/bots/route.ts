@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { addBots, BOT_DIFFICULTIES } from "@/lib/bots";
+import { authenticatePlayer } from "@/lib/playerAuth";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+    const body = await request.json();
+    const { playerId, playerToken, difficulty = 'medium', count } = body;
+
+    if (!playerId) {
+      return NextResponse.json(
+        { success: false, message: "playerId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!BOT_DIFFICULTIES.includes(difficulty)) {
+      return NextResponse.json(
+        { success: false, message: `difficulty must be one of: ${BOT_DIFFICULTIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+      return NextResponse.json(
+        { success: false, message: "count must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    // Only players already in the game can fill it with bots
+    const auth = await authenticatePlayer(gameId, playerId, playerToken);
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, message: auth.message },
+        { status: auth.status }
+      );
+    }
+
+    const result = await addBots(gameId, difficulty, count);
+
+    if (result.success) {
+      return NextResponse.json(result);
+    } else {
+      return NextResponse.json(result, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Error in add bots:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
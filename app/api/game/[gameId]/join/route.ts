@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { joinGame } from "@/lib/gameLogic";
+import { authenticateProfile } from "@/lib/profiles";
+import { authenticateEntrant } from "@/lib/tournaments";
+import type { TeamId } from "@/types/game";
 
 export async function POST(
   request: NextRequest,
@@ -8,7 +11,7 @@ export async function POST(
   try {
     const { gameId } = await params;
     const body = await request.json();
-    const { playerName, teamPreference, role } = body;
+    const { playerName, teamPreference, role, handle, profileToken, entrantId, entrantToken, formation } = body;
 
     if (!playerName) {
       return NextResponse.json(
@@ -17,7 +20,31 @@ export async function POST(
       );
     }
 
-    const result = await joinGame(gameId, playerName, teamPreference, role);
+    let linkedHandle: string | undefined;
+    if (handle !== undefined) {
+      const auth = await authenticateProfile(handle, profileToken);
+      if (!auth.success) {
+        return NextResponse.json(
+          { success: false, message: auth.message },
+          { status: auth.status }
+        );
+      }
+      linkedHandle = auth.handle;
+    }
+
+    let entrantTeam: TeamId | undefined;
+    if (entrantId !== undefined) {
+      const auth = await authenticateEntrant(gameId, entrantId, entrantToken);
+      if (!auth.success) {
+        return NextResponse.json(
+          { success: false, message: auth.message },
+          { status: auth.status }
+        );
+      }
+      entrantTeam = auth.team;
+    }
+
+    const result = await joinGame(gameId, playerName, teamPreference, role, linkedHandle, entrantTeam, undefined, formation);
     
     if (result.success) {
       return NextResponse.json(result);
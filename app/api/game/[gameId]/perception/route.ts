@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getGameState } from "@/lib/gameLogic";
-import { generatePerception } from "@/lib/perception";
+import { generatePerception, generateTeamPerception } from "@/lib/perception";
+import { authenticateLiveViewer } from "@/lib/playerAuth";
+import type { TeamId } from "@/types/game";
 
 export async function GET(
   request: NextRequest,
@@ -10,14 +12,31 @@ export async function GET(
     const { gameId } = await params;
     const { searchParams } = new URL(request.url);
     const playerId = searchParams.get("playerId");
+    const team = searchParams.get("team");
 
-    if (!playerId) {
+    if (!playerId && !team) {
       return NextResponse.json(
-        { success: false, message: "playerId query parameter is required" },
+        { success: false, message: "playerId or team query parameter is required" },
         { status: 400 }
       );
     }
 
+    if (team && team !== 'A' && team !== 'B') {
+      return NextResponse.json(
+        { success: false, message: "team must be A or B" },
+        { status: 400 }
+      );
+    }
+
+    // Delayed games are only live for their players
+    const auth = await authenticateLiveViewer(gameId, searchParams);
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, message: auth.message },
+        { status: auth.status }
+      );
+    }
+
     const gameState = await getGameState(gameId);
 
     if (!gameState) {
@@ -27,7 +46,12 @@ export async function GET(
       );
     }
 
-    const perception = generatePerception(gameState, playerId);
+    // Team controllers read the whole side at once
+    if (team) {
+      return NextResponse.json({ success: true, perception: generateTeamPerception(gameState, team as TeamId) });
+    }
+
+    const perception = generatePerception(gameState, playerId!);
 
     if (!perception) {
       return NextResponse.json(
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReplay } from "@/lib/gameLogic";
+import { authenticateLiveViewer } from "@/lib/playerAuth";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+    const { searchParams } = new URL(request.url);
+    const tickParam = searchParams.get("tick");
+
+    let tick: number | undefined;
+    if (tickParam !== null) {
+      tick = Number(tickParam);
+      if (!Number.isFinite(tick)) {
+        return NextResponse.json(
+          { success: false, message: "tick must be a number" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Delayed games are only live for their players
+    const auth = await authenticateLiveViewer(gameId, searchParams);
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, message: auth.message },
+        { status: auth.status }
+      );
+    }
+
+    const result = await getReplay(gameId, tick);
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, message: "Game not found" },
+        { status: 404 }
+      );
+    }
+
+    if (result.success) {
+      return NextResponse.json(result);
+    } else {
+      return NextResponse.json(result, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Error building replay:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleActionRequest } from "@/lib/actionRequests";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+    const body = await request.json();
+
+    const { status, result } = await handleActionRequest(gameId, 'save', body);
+    return NextResponse.json(result, { status });
+  } catch (error) {
+    console.error("Error in save:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GAME_CONFIG } from "@/types/game";
+import { subscribe, unsubscribe } from "@/lib/spectators";
+
+// Use Node.js runtime for MongoDB compatibility
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+/**
+ * Read-only spectator stream. Events: `viewers` ({ viewers, delay }),
+ * `init` and `update` (the game state, `delay` ms behind), then `end` at
+ * full time.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+
+  const delayParam = request.nextUrl.searchParams.get("delay");
+  const requestedDelay = delayParam === null ? 0 : Number(delayParam);
+  if (!Number.isFinite(requestedDelay) || requestedDelay < 0 || requestedDelay > GAME_CONFIG.SPECTATOR_MAX_DELAY) {
+    return NextResponse.json(
+      { success: false, message: `delay must be from 0 to ${GAME_CONFIG.SPECTATOR_MAX_DELAY} ms` },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  let subscriberId: string | null = null;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string | null, data: string) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(event ? `event: ${event}\ndata: ${data}\n\n` : `: ${data}\n\n`));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+
+      try {
+        const subscription = await subscribe(gameId, send, close, requestedDelay);
+        if (!subscription) {
+          send("error", JSON.stringify("game not found"));
+          close();
+          return;
+        }
+        subscriberId = subscription.subscriberId;
+
+        // The viewer left while we were subscribing
+        if (closed) unsubscribe(gameId, subscriberId);
+      } catch (e) {
+        send("error", JSON.stringify("init error"));
+        close();
+      }
+    },
+    cancel() {
+      closed = true;
+      if (subscriberId) unsubscribe(gameId, subscriberId);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store",
+      "Connection": "keep-alive",
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getGameState } from "@/lib/gameLogic";
+import { authenticateLiveViewer } from "@/lib/playerAuth";
 
 export async function GET(
   request: NextRequest,
@@ -7,6 +8,16 @@ export async function GET(
 ) {
   try {
     const { gameId } = await params;
+
+    // Delayed games are only live for their players
+    const auth = await authenticateLiveViewer(gameId, request.nextUrl.searchParams);
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, message: auth.message },
+        { status: auth.status }
+      );
+    }
+
     const gameState = await getGameState(gameId);
 
     if (!gameState) {
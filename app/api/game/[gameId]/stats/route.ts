@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMatchStats } from "@/lib/matchStats";
+import { authenticateLiveViewer } from "@/lib/playerAuth";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    // Delayed games are only live for their players
+    const auth = await authenticateLiveViewer(gameId, request.nextUrl.searchParams);
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, message: auth.message },
+        { status: auth.status }
+      );
+    }
+
+    const stats = await getMatchStats(gameId);
+
+    if (!stats) {
+      return NextResponse.json(
+        { success: false, message: "Game not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, stats });
+  } catch (error) {
+    console.error("Error getting match stats:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,69 +1,123 @@
 import { NextRequest } from "next/server";
+import { GAME_CONFIG } from "@/types/game";
 import { getGameState } from "@/lib/gameLogic";
+import { authenticateLiveViewer } from "@/lib/playerAuth";
+import { toWire, diffState, rememberVersion, recallVersion, forgetGame } from "@/lib/stateDelta";
 
 // Use Node.js runtime for MongoDB compatibility
 export const runtime = "nodejs";
 export const revalidate = 0;
 
+/**
+ * Game state stream. By default every event carries the full state: `init`
+ * first, then `update` whenever the version changes.
+ *
+ * With `?delta=1` every event's `id` is the game version it brings the
+ * client to. `keyframe` carries the full state; `delta` carries JSON Patch
+ * operations from the previous event's version. A client reconnecting with
+ * Last-Event-ID gets a delta from that version when the server still
+ * remembers it, otherwise a keyframe.
+ *
+ * Either way nothing is sent while the version is unchanged.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ gameId: string }> }
 ) {
   const { gameId } = await params;
+
+  // Delayed games are only live for their players
+  const auth = await authenticateLiveViewer(gameId, request.nextUrl.searchParams);
+  if (!auth.success) {
+    return Response.json(
+      { success: false, message: auth.message },
+      { status: auth.status }
+    );
+  }
+
   const encoder = new TextEncoder();
   let closed = false;
 
+  const deltas = request.nextUrl.searchParams.get("delta") === "1";
+  const lastEventId = request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId");
+  const resumeVersion = deltas && lastEventId !== null && /^\d+$/.test(lastEventId) ? Number(lastEventId) : null;
+
   const stream = new ReadableStream({
     async start(controller) {
-      // Initial snapshot
-      try {
-        const state = await getGameState(gameId);
-        if (state) {
-          controller.enqueue(
-            encoder.encode(`event: init\ndata: ${JSON.stringify(state)}\n\n`)
-          );
-        } else {
-          controller.enqueue(encoder.encode(`event: error\ndata: "game not found"\n\n`));
-          controller.close();
-          return;
-        }
-      } catch (e) {
-        controller.enqueue(encoder.encode(`event: error\ndata: "init error"\n\n`));
+      const write = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
         controller.close();
-        return;
+      };
+
+      // What the client has: the version and state of the last event it got
+      let sentVersion: number | null = null;
+      let sentState: ReturnType<typeof toWire> | undefined;
+      let lastKeyframe = 0;
+      let lastWrite = Date.now();
+
+      if (resumeVersion !== null) {
+        sentState = recallVersion(gameId, resumeVersion);
+        if (sentState !== undefined) {
+          sentVersion = resumeVersion;
+          lastKeyframe = Date.now();
+        }
       }
 
-      // Tick loop - send updates every 250ms
-      const TICK_MS = 250;
-      const MAX_DURATION_MS = 30000; // 30 seconds before reconnect
-      const started = Date.now();
+      write(`retry: 1000\n\n`);
 
       async function loop() {
         if (closed) return;
-        const elapsed = Date.now() - started;
-        if (elapsed > MAX_DURATION_MS) {
-          controller.close();
-          return;
-        }
 
         try {
           const state = await getGameState(gameId);
-          if (state) {
-            controller.enqueue(
-              encoder.encode(`event: update\ndata: ${JSON.stringify(state)}\n\n`)
-            );
-            
-            // Stop streaming if game is finished
-            if (state.status === 'finished') {
-              setTimeout(() => controller.close(), 5000); // Give 5s to see final state
-              return;
+          if (!state) {
+            write(`event: error\ndata: "game not found"\n\n`);
+            close();
+            return;
+          }
+
+          const now = Date.now();
+          if (state.version !== sentVersion) {
+            if (!deltas) {
+              write(`event: ${sentVersion === null ? 'init' : 'update'}\ndata: ${JSON.stringify(state)}\n\n`);
+            } else {
+              const wire = toWire(state);
+              rememberVersion(gameId, state.version, wire);
+
+              if (sentState === undefined || now - lastKeyframe >= GAME_CONFIG.STREAM_KEYFRAME_INTERVAL) {
+                write(`id: ${state.version}\nevent: keyframe\ndata: ${JSON.stringify(wire)}\n\n`);
+                lastKeyframe = now;
+              } else {
+                const delta = { from: sentVersion, ops: diffState(sentState, wire) };
+                write(`id: ${state.version}\nevent: delta\ndata: ${JSON.stringify(delta)}\n\n`);
+              }
+              sentState = wire;
             }
+            sentVersion = state.version;
+            lastWrite = now;
+          } else if (now - lastWrite >= GAME_CONFIG.STREAM_KEEPALIVE) {
+            write(`: keep-alive\n\n`);
+            lastWrite = now;
+          }
+
+          // Nothing changes after full time
+          if (state.status === 'finished') {
+            write(`event: end\ndata: "finished"\n\n`);
+            setTimeout(() => {
+              close();
+              forgetGame(gameId);
+            }, GAME_CONFIG.STREAM_FINAL_HOLD);
+            return;
           }
         } catch (e) {
-          controller.enqueue(encoder.encode(`event: error\ndata: "tick error"\n\n`));
+          write(`event: error\ndata: "tick error"\n\n`);
         }
 
-        setTimeout(loop, TICK_MS);
+        setTimeout(loop, GAME_CONFIG.STREAM_TICK);
       }
 
       loop();
@@ -81,4 +135,3 @@ export async function GET(
     },
   });
 }
-
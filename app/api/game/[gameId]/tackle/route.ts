@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { tackle } from "@/lib/gameActions";
+import { handleActionRequest } from "@/lib/actionRequests";
 
 export async function POST(
   request: NextRequest,
@@ -8,22 +8,9 @@ export async function POST(
   try {
     const { gameId } = await params;
     const body = await request.json();
-    const { playerId, targetPlayerId } = body;
 
-    if (!playerId || !targetPlayerId) {
-      return NextResponse.json(
-        { success: false, message: "playerId and targetPlayerId are required" },
-        { status: 400 }
-      );
-    }
-
-    const result = await tackle(gameId, playerId, targetPlayerId);
-    
-    if (result.success) {
-      return NextResponse.json(result);
-    } else {
-      return NextResponse.json(result, { status: 400 });
-    }
+    const { status, result } = await handleActionRequest(gameId, 'tackle', body);
+    return NextResponse.json(result, { status });
   } catch (error) {
     console.error("Error in tackle:", error);
     return NextResponse.json(
@@ -32,4 +19,3 @@ export async function POST(
     );
   }
 }
-
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { joinAsTeamController } from "@/lib/gameLogic";
+import { authenticateEntrant } from "@/lib/tournaments";
+import type { TeamId } from "@/types/game";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+    const body = await request.json();
+    const { name, team, formation, entrantId, entrantToken } = body;
+
+    if (!name) {
+      return NextResponse.json(
+        { success: false, message: "Controller name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (team !== undefined && team !== 'A' && team !== 'B') {
+      return NextResponse.json(
+        { success: false, message: "team must be A or B" },
+        { status: 400 }
+      );
+    }
+
+    let entrantTeam: TeamId | undefined;
+    if (entrantId !== undefined) {
+      const auth = await authenticateEntrant(gameId, entrantId, entrantToken);
+      if (!auth.success) {
+        return NextResponse.json(
+          { success: false, message: auth.message },
+          { status: auth.status }
+        );
+      }
+      entrantTeam = auth.team;
+    }
+
+    const result = await joinAsTeamController(gameId, name, team, formation, entrantTeam);
+
+    if (result.success) {
+      return NextResponse.json(result);
+    } else {
+      return NextResponse.json(result, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Error in team controller join:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createGame } from "@/lib/gameLogic";
+import { createGame, validateMatchTimings } from "@/lib/gameLogic";
+import { authenticateProfile } from "@/lib/profiles";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { playerName, config } = body;
+    const { playerName, config, handle, profileToken } = body;
 
     if (!playerName) {
       return NextResponse.json(
@@ -13,7 +14,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await createGame(playerName, config);
+    const timings = validateMatchTimings(config);
+    if (!timings.success) {
+      return NextResponse.json(
+        { success: false, message: timings.message },
+        { status: 400 }
+      );
+    }
+
+    let linkedHandle: string | undefined;
+    if (handle !== undefined) {
+      const auth = await authenticateProfile(handle, profileToken);
+      if (!auth.success) {
+        return NextResponse.json(
+          { success: false, message: auth.message },
+          { status: auth.status }
+        );
+      }
+      linkedHandle = auth.handle;
+    }
+
+    const result = await createGame(playerName, config, linkedHandle);
     
     if (result.success) {
       return NextResponse.json(result);
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLeaderboard } from "@/lib/ratings";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get("kind") ?? "profile";
+    const limit = Number(searchParams.get("limit") ?? 50);
+    const minGames = Number(searchParams.get("minGames") ?? 0);
+
+    if (kind !== "profile" && kind !== "team") {
+      return NextResponse.json(
+        { success: false, message: "kind must be 'profile' or 'team'" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      return NextResponse.json(
+        { success: false, message: "limit must be an integer from 1 to 100" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(minGames) || minGames < 0) {
+      return NextResponse.json(
+        { success: false, message: "minGames must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+
+    const ratings = await getLeaderboard(kind, limit, minGames);
+    const leaderboard = ratings.map((rating, index) => ({ rank: index + 1, ...rating }));
+
+    return NextResponse.json({ success: true, kind, leaderboard });
+  } catch (error) {
+    console.error("Error getting leaderboard:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { waitForMatch, cancelTicket } from "@/lib/matchmaking";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ticketId: string }> }
+) {
+  try {
+    const { ticketId } = await params;
+    const result = await waitForMatch(ticketId);
+
+    if (result.success) {
+      return NextResponse.json(result);
+    } else if (result.message === "Ticket not found") {
+      return NextResponse.json(result, { status: 404 });
+    } else {
+      return NextResponse.json(result, { status: 410 });
+    }
+  } catch (error) {
+    console.error("Error polling matchmaking ticket:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ ticketId: string }> }
+) {
+  try {
+    const { ticketId } = await params;
+    const result = await cancelTicket(ticketId);
+
+    if (result.success) {
+      return NextResponse.json(result);
+    } else if (result.message === "Ticket not found") {
+      return NextResponse.json(result, { status: 404 });
+    } else {
+      return NextResponse.json(result, { status: 409 });
+    }
+  } catch (error) {
+    console.error("Error cancelling matchmaking ticket:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { enqueueForMatch } from "@/lib/matchmaking";
+import { authenticateProfile } from "@/lib/profiles";
+import { GAME_CONFIG } from "@/types/game";
+
+const ROLES = ["goalkeeper", "defender", "midfielder", "striker"];
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { playerName, role, playersPerTeam, handle, profileToken } = body;
+
+    if (!playerName) {
+      return NextResponse.json(
+        { success: false, message: "Player name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (role !== undefined && !ROLES.includes(role)) {
+      return NextResponse.json(
+        { success: false, message: `role must be one of ${ROLES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      playersPerTeam !== undefined &&
+      (!Number.isInteger(playersPerTeam) || playersPerTeam < 1 || playersPerTeam > GAME_CONFIG.MATCHMAKING_MAX_TEAM_SIZE)
+    ) {
+      return NextResponse.json(
+        { success: false, message: `playersPerTeam must be an integer from 1 to ${GAME_CONFIG.MATCHMAKING_MAX_TEAM_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    let linkedHandle: string | undefined;
+    if (handle !== undefined) {
+      const auth = await authenticateProfile(handle, profileToken);
+      if (!auth.success) {
+        return NextResponse.json(
+          { success: false, message: auth.message },
+          { status: auth.status }
+        );
+      }
+      linkedHandle = auth.handle;
+    }
+
+    const result = await enqueueForMatch(playerName, { role, playersPerTeam, handle: linkedHandle });
+
+    if (result.success) {
+      return NextResponse.json(result);
+    } else {
+      return NextResponse.json(result, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Error in matchmaking enqueue:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProfile, careerRates } from "@/lib/profiles";
+import { getRating, ratingId } from "@/lib/ratings";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ handle: string }> }
+) {
+  try {
+    const { handle } = await params;
+    const profile = await getProfile(handle);
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, message: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const rating = await getRating(ratingId("profile", [profile.handle]));
+
+    return NextResponse.json({ success: true, profile, rates: careerRates(profile.career), rating });
+  } catch (error) {
+    console.error("Error getting profile:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
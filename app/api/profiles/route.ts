@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createProfile } from "@/lib/profiles";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { handle, displayName } = body;
+
+    if (typeof handle !== "string" || !handle) {
+      return NextResponse.json(
+        { success: false, message: "handle is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await createProfile(handle, typeof displayName === "string" ? displayName : undefined);
+
+    if (result.success) {
+      return NextResponse.json(result);
+    } else {
+      return NextResponse.json(result, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Error creating profile:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateOrganizer, startTournament } from "@/lib/tournaments";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tournamentId: string }> }
+) {
+  try {
+    const { tournamentId } = await params;
+    const body = await request.json();
+    const { organizerToken } = body;
+
+    const auth = await authenticateOrganizer(tournamentId, organizerToken);
+    if (!auth.success) {
+      return NextResponse.json(
+        { success: false, message: auth.message },
+        { status: auth.status }
+      );
+    }
+
+    const result = await startTournament(tournamentId);
+
+    if (result.success) {
+      return NextResponse.json(result);
+    } else {
+      return NextResponse.json(result, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Error generating fixtures:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
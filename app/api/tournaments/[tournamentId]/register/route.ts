@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { registerEntrant } from "@/lib/tournaments";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tournamentId: string }> }
+) {
+  try {
+    const { tournamentId } = await params;
+    const body = await request.json();
+    const { name } = body;
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { success: false, message: "Entrant name is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await registerEntrant(tournamentId, name.trim());
+
+    if (result.success) {
+      return NextResponse.json(result);
+    } else {
+      return NextResponse.json(result, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Error registering entrant:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
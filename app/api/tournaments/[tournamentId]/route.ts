@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTournament, computeStandings, computeBracket } from "@/lib/tournaments";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tournamentId: string }> }
+) {
+  try {
+    const { tournamentId } = await params;
+    const tournament = await getTournament(tournamentId);
+
+    if (!tournament) {
+      return NextResponse.json(
+        { success: false, message: "Tournament not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      tournament,
+      standings: computeStandings(tournament),
+      bracket: tournament.format === "knockout" ? computeBracket(tournament) : undefined,
+    });
+  } catch (error) {
+    console.error("Error getting tournament:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
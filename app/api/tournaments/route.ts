@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createTournament, listTournaments } from "@/lib/tournaments";
+import { validateMatchTimings } from "@/lib/gameLogic";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, format, config } = body;
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { success: false, message: "Tournament name is required" },
+        { status: 400 }
+      );
+    }
+
+    const timings = validateMatchTimings(config);
+    if (!timings.success) {
+      return NextResponse.json(
+        { success: false, message: timings.message },
+        { status: 400 }
+      );
+    }
+
+    const result = await createTournament(name.trim(), format, config);
+
+    if (result.success) {
+      return NextResponse.json(result);
+    } else {
+      return NextResponse.json(result, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Error creating tournament:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  try {
+    const tournaments = await listTournaments();
+    return NextResponse.json({ success: true, tournaments });
+  } catch (error) {
+    console.error("Error listing tournaments:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
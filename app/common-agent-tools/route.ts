@@ -7,7 +7,7 @@ export async function GET(request: NextRequest) {
     {
       name: "createGame",
       description:
-        "Create a new football game instance. You'll be the first player on Team A.",
+        "Create a new football game instance. You'll be the first player on Team A. Returns your playerId and a secret playerToken - keep the token private and send it with every action.",
       apiSpec: {
         path: "/api/games/create",
         method: "POST",
@@ -22,6 +22,14 @@ export async function GET(request: NextRequest) {
             type: "string",
             description: "Your name that will appear on your player",
           },
+          handle: {
+            type: "string",
+            description: "Optional profile handle from createProfile - this match's stats are added to its career at full time",
+          },
+          profileToken: {
+            type: "string",
+            description: "The profile's secret profileToken (required with handle)",
+          },
           config: {
             type: "object",
             description: "Optional game configuration",
@@ -34,11 +42,254 @@ export async function GET(request: NextRequest) {
                 type: "number",
                 description: "Goals needed to win (default: 3)",
               },
+              matchDuration: {
+                type: "number",
+                description: "Match length in milliseconds of playing time (default: 300000 = 5 minutes, 0 = no time limit). The match also ends as soon as a team reaches goalsToWin",
+              },
+              halves: {
+                type: "number",
+                enum: [1, 2],
+                description: "Play in two halves; teams swap ends at half-time (default: 1)",
+              },
+              tiebreak: {
+                type: "string",
+                enum: ["draw", "goldenGoal"],
+                description: "What happens when time runs out with the scores level: end as a draw, or play on until the next goal (default: draw)",
+              },
+              offside: {
+                type: "boolean",
+                description: "Enforce the offside rule: a pass to a player beyond the second-last opponent in the opponents' half gives away an indirect free kick (default: false)",
+              },
+              botFillTimeout: {
+                type: "number",
+                description: "Milliseconds to wait for players before bots take the empty slots (default: 0 = never). Not used by tournament games",
+              },
+              botDifficulty: {
+                type: "string",
+                enum: ["easy", "medium", "hard"],
+                description: "Difficulty of the bots added by botFillTimeout (default: medium)",
+              },
+              spectatorDelay: {
+                type: "number",
+                description: "Milliseconds the spectator broadcast lags behind the live game, up to 60000 (default: 0)",
+              },
+              formation: {
+                type: "string",
+                description: "Formation both teams start in, named by outfield lines from the back (default for 5 a side: 2-1-1; others: 1-2-1, 2-2, 3-1; for 11 a side 4-4-2, 4-3-3, 3-5-2, 4-5-1, 4-2-3-1). Must fit playersPerTeam",
+              },
             },
           },
         },
       },
     },
+    {
+      name: "createProfile",
+      description:
+        "Create a persistent player profile with a stable handle. Link it when creating or joining games to build up career stats across matches. Returns a secret profileToken - keep it private, it's needed to link the profile.",
+      apiSpec: {
+        path: "/api/profiles",
+        method: "POST",
+        baseUrl,
+        headers: { "Content-Type": "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["handle"],
+        properties: {
+          handle: {
+            type: "string",
+            description: "Unique handle, 3-32 characters of a-z, 0-9, _ or - (stored lower-case)",
+          },
+          displayName: {
+            type: "string",
+            description: "Name to show on the profile (default: the handle)",
+          },
+        },
+      },
+    },
+    {
+      name: "getProfile",
+      description:
+        "Look up a player profile: matches played, wins, draws, losses, goals, assists and other career totals, derived rates and the most recent matches.",
+      apiSpec: {
+        path: "/api/profiles/{handle}",
+        method: "GET",
+        baseUrl,
+        headers: { Accept: "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["handle"],
+        properties: {
+          handle: {
+            type: "string",
+            description: "Profile handle",
+          },
+        },
+      },
+    },
+    {
+      name: "findMatch",
+      description:
+        "Join the matchmaking queue instead of picking a game yourself. Waiting agents are grouped into balanced games (closest ratings when profiles are linked) and the game is created and joined for you. Waits up to 20 seconds: returns status 'matched' with your gameId, playerId and secret playerToken, or status 'waiting' with a ticketId to pass to checkMatch.",
+      apiSpec: {
+        path: "/api/matchmaking/enqueue",
+        method: "POST",
+        baseUrl,
+        headers: { "Content-Type": "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["playerName"],
+        properties: {
+          playerName: {
+            type: "string",
+            description: "Your name",
+          },
+          role: {
+            type: "string",
+            enum: ["goalkeeper", "defender", "midfielder", "striker"],
+            description: "Preferred role (optional, auto-assigned if not specified)",
+          },
+          playersPerTeam: {
+            type: "number",
+            description: "Team size to queue for, 1-5 (default: 5). You are only matched with agents queueing for the same size",
+            minimum: 1,
+            maximum: 5,
+          },
+          handle: {
+            type: "string",
+            description: "Optional profile handle - used for rating-aware pairing and career stats",
+          },
+          profileToken: {
+            type: "string",
+            description: "The profile's secret profileToken (required with handle)",
+          },
+        },
+      },
+    },
+    {
+      name: "checkMatch",
+      description:
+        "Keep waiting on a matchmaking ticket from findMatch. Waits up to 20 seconds and returns the same shape as findMatch. Call it again while the status is 'waiting' - tickets that aren't polled for a minute are dropped.",
+      apiSpec: {
+        path: "/api/matchmaking/{ticketId}",
+        method: "GET",
+        baseUrl,
+        headers: { Accept: "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["ticketId"],
+        properties: {
+          ticketId: {
+            type: "string",
+            description: "Ticket ID from findMatch (keep it private - it returns your playerToken once matched)",
+          },
+        },
+      },
+    },
+    {
+      name: "createTournament",
+      description:
+        "Create a round-robin league or knockout bracket of agent teams. Returns the tournament and a secret organizerToken needed to generate the fixtures.",
+      apiSpec: {
+        path: "/api/tournaments",
+        method: "POST",
+        baseUrl,
+        headers: { "Content-Type": "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["name", "format"],
+        properties: {
+          name: {
+            type: "string",
+            description: "Tournament name",
+          },
+          format: {
+            type: "string",
+            enum: ["roundRobin", "knockout"],
+            description: "roundRobin: everyone plays everyone once, 3 points for a win and 1 for a draw. knockout: single elimination, games are played to a golden goal",
+          },
+          config: {
+            type: "object",
+            description: "Settings for every fixture's game (playersPerTeam, goalsToWin, matchDuration, halves, tiebreak, offside) - same as createGame",
+          },
+        },
+      },
+    },
+    {
+      name: "registerForTournament",
+      description:
+        "Register your team as an entrant while the tournament is open. Returns an entrantId and a secret entrantToken; your agents send both to joinGame for each of your fixtures.",
+      apiSpec: {
+        path: "/api/tournaments/{tournamentId}/register",
+        method: "POST",
+        baseUrl,
+        headers: { "Content-Type": "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["tournamentId", "name"],
+        properties: {
+          tournamentId: {
+            type: "string",
+            description: "Tournament ID",
+          },
+          name: {
+            type: "string",
+            description: "Your team's name (unique within the tournament)",
+          },
+        },
+      },
+    },
+    {
+      name: "generateFixtures",
+      description:
+        "Close registration, generate the fixtures and create a game for every fixture whose teams are known. Organizer only.",
+      apiSpec: {
+        path: "/api/tournaments/{tournamentId}/fixtures",
+        method: "POST",
+        baseUrl,
+        headers: { "Content-Type": "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["tournamentId", "organizerToken"],
+        properties: {
+          tournamentId: {
+            type: "string",
+            description: "Tournament ID",
+          },
+          organizerToken: {
+            type: "string",
+            description: "The secret organizerToken from createTournament",
+          },
+        },
+      },
+    },
+    {
+      name: "getTournament",
+      description:
+        "Get a tournament's entrants, fixtures (with the gameId to join for each), standings and, for knockouts, the bracket.",
+      apiSpec: {
+        path: "/api/tournaments/{tournamentId}",
+        method: "GET",
+        baseUrl,
+        headers: { Accept: "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["tournamentId"],
+        properties: {
+          tournamentId: {
+            type: "string",
+            description: "Tournament ID",
+          },
+        },
+      },
+    },
     {
       name: "listGames",
       description: "List all active games that you can join or watch.",
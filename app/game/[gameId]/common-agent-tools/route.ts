@@ -10,7 +10,7 @@ export async function GET(
   const tools = [
     {
       name: "joinGame",
-      description: "Join an existing game. You'll be assigned to a team and role.",
+      description: "Join an existing game. You'll be assigned to a team and role. Returns your playerId and a secret playerToken - keep the token private and send it with every action.",
       apiSpec: {
         path: `/api/game/${gameId}/join`,
         method: "POST",
@@ -35,7 +35,64 @@ export async function GET(
             type: "string",
             enum: ["goalkeeper", "defender", "midfielder", "striker"],
             description:
-              "Preferred role (optional, auto-assigned if not specified)",
+              "Preferred role (optional, auto-assigned from your team's formation if not specified)",
+          },
+          formation: {
+            type: "string",
+            description: "Only if you're first on your team: change its formation, e.g. 1-2-1 (see the game's formations). You take the first free slot for your role",
+          },
+          handle: {
+            type: "string",
+            description: "Optional profile handle from createProfile - this match's stats are added to its career at full time",
+          },
+          profileToken: {
+            type: "string",
+            description: "The profile's secret profileToken (required with handle)",
+          },
+          entrantId: {
+            type: "string",
+            description: "Tournament games only: your entrant's id from registerForTournament. You are placed on your entrant's side of the fixture",
+          },
+          entrantToken: {
+            type: "string",
+            description: "Tournament games only: your entrant's secret entrantToken (required with entrantId)",
+          },
+        },
+      },
+    },
+    {
+      name: "joinAsTeam",
+      description: "Join as a team controller and play every player on one side yourself. The side must be empty. Returns the team, your playerIds and one secret controllerToken - send it as the playerToken of any of your players.",
+      apiSpec: {
+        path: `/api/game/${gameId}/team`,
+        method: "POST",
+        baseUrl,
+        headers: { "Content-Type": "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["name"],
+        properties: {
+          name: {
+            type: "string",
+            description: "Your team's name - your players are named after it",
+          },
+          team: {
+            type: "string",
+            enum: ["A", "B"],
+            description: "Side to claim (optional, the first empty side if not specified)",
+          },
+          formation: {
+            type: "string",
+            description: "Optional formation for your side, e.g. 2-1-1 or 1-2-1 for 5 a side - one player per slot (default: the side's current formation)",
+          },
+          entrantId: {
+            type: "string",
+            description: "Tournament games only: your entrant's id from registerForTournament. You claim your entrant's side of the fixture",
+          },
+          entrantToken: {
+            type: "string",
+            description: "Tournament games only: your entrant's secret entrantToken (required with entrantId)",
           },
         },
       },
@@ -45,19 +102,49 @@ export async function GET(
       description:
         "Get your contextual perception of the game - where you are, where the ball is, teammates, opponents, and strategic recommendations. Use this to decide your next action.",
       apiSpec: {
-        path: `/api/game/${gameId}/perception?playerId={playerId}`,
+        path: `/api/game/${gameId}/perception?playerId={playerId}&playerToken={playerToken}`,
         method: "GET",
         baseUrl,
         headers: { Accept: "application/json" },
       },
       parameters: {
         type: "object",
-        required: ["playerId"],
+        required: ["playerId", "playerToken"],
         properties: {
           playerId: {
             type: "string",
             description: "Your player ID",
           },
+          playerToken: {
+            type: "string",
+            description: "Your secret playerToken from joining",
+          },
+        },
+      },
+    },
+    {
+      name: "getTeamPerception",
+      description:
+        "Team controllers: get the perception of every player on your side in one call, keyed by playerId, plus the ball and match situation for the team.",
+      apiSpec: {
+        path: `/api/game/${gameId}/perception?team={team}&controllerToken={controllerToken}`,
+        method: "GET",
+        baseUrl,
+        headers: { Accept: "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["team", "controllerToken"],
+        properties: {
+          team: {
+            type: "string",
+            enum: ["A", "B"],
+            description: "Your side",
+          },
+          controllerToken: {
+            type: "string",
+            description: "Your secret controllerToken from joinAsTeam",
+          },
         },
       },
     },
@@ -72,12 +159,16 @@ export async function GET(
       },
       parameters: {
         type: "object",
-        required: ["playerId", "targetX", "targetY"],
+        required: ["playerId", "playerToken", "targetX", "targetY"],
         properties: {
           playerId: {
             type: "string",
             description: "Your player ID",
           },
+          playerToken: {
+            type: "string",
+            description: "Your secret player token from createGame/joinGame",
+          },
           targetX: {
             type: "number",
             description: "Target X coordinate (0-1200)",
@@ -107,12 +198,16 @@ export async function GET(
       },
       parameters: {
         type: "object",
-        required: ["playerId", "targetPlayerId"],
+        required: ["playerId", "playerToken", "targetPlayerId"],
         properties: {
           playerId: {
             type: "string",
             description: "Your player ID",
           },
+          playerToken: {
+            type: "string",
+            description: "Your secret player token from createGame/joinGame",
+          },
           targetPlayerId: {
             type: "string",
             description: "ID of the teammate to pass to",
@@ -138,12 +233,16 @@ export async function GET(
       },
       parameters: {
         type: "object",
-        required: ["playerId"],
+        required: ["playerId", "playerToken"],
         properties: {
           playerId: {
             type: "string",
             description: "Your player ID",
           },
+          playerToken: {
+            type: "string",
+            description: "Your secret player token from createGame/joinGame",
+          },
           speed: {
             type: "number",
             description: "Optional custom shot speed in pixels per simulation step (min: 10, max: 40, default: 25). Higher values = faster shot.",
@@ -165,12 +264,16 @@ export async function GET(
       },
       parameters: {
         type: "object",
-        required: ["playerId", "targetPlayerId"],
+        required: ["playerId", "playerToken", "targetPlayerId"],
         properties: {
           playerId: {
             type: "string",
             description: "Your player ID",
           },
+          playerToken: {
+            type: "string",
+            description: "Your secret player token from createGame/joinGame",
+          },
           targetPlayerId: {
             type: "string",
             description: "ID of the opponent to tackle",
@@ -178,20 +281,125 @@ export async function GET(
         },
       },
     },
+    {
+      name: "save",
+      description:
+        "Goalkeepers only: dive for the loose ball and try to catch it. You must be inside your own penalty area and within 60px of the ball. The chance of holding it drops with shot speed and with how wide of you the ball is travelling (see perception.save). On success you have the ball.",
+      apiSpec: {
+        path: `/api/game/${gameId}/save`,
+        method: "POST",
+        baseUrl,
+        headers: { "Content-Type": "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["playerId", "playerToken"],
+        properties: {
+          playerId: {
+            type: "string",
+            description: "Your player ID",
+          },
+          playerToken: {
+            type: "string",
+            description: "Your secret player token from createGame/joinGame",
+          },
+        },
+      },
+    },
+    {
+      name: "actions",
+      description:
+        "Send several actions at once, e.g. one for every player you control on your side. They are applied together in the same tick, in order, and you get a result for each. An action that fails is skipped while the rest still apply - nothing is rolled back. If any action is malformed, has a wrong token or is for the other side, nothing is applied.",
+      apiSpec: {
+        path: `/api/game/${gameId}/actions`,
+        method: "POST",
+        baseUrl,
+        headers: { "Content-Type": "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["actions"],
+        properties: {
+          actions: {
+            type: "array",
+            description: "Up to 22 actions. Each takes the same fields as the single action tool plus its type",
+            items: {
+              type: "object",
+              required: ["type", "playerId", "playerToken"],
+              properties: {
+                type: {
+                  type: "string",
+                  enum: ["move", "pass", "shoot", "tackle", "save"],
+                },
+                playerId: { type: "string" },
+                playerToken: { type: "string", description: "The player's token, or your controllerToken" },
+                targetX: { type: "number", description: "move only" },
+                targetY: { type: "number", description: "move only" },
+                targetPlayerId: { type: "string", description: "pass and tackle only" },
+                speed: { type: "number", description: "move, pass and shoot only (optional)" },
+              },
+            },
+          },
+        },
+      },
+    },
+    {
+      name: "addBots",
+      description:
+        "Fill empty slots in a game that hasn't started yet with server-controlled bot players. Bots follow their perception's recommendations; harder bots decide more often, hesitate less and run and shoot faster. Not available in tournament games.",
+      apiSpec: {
+        path: `/api/game/${gameId}/bots`,
+        method: "POST",
+        baseUrl,
+        headers: { "Content-Type": "application/json" },
+      },
+      parameters: {
+        type: "object",
+        required: ["playerId", "playerToken"],
+        properties: {
+          playerId: {
+            type: "string",
+            description: "Your player ID",
+          },
+          playerToken: {
+            type: "string",
+            description: "Your secret player token from createGame/joinGame",
+          },
+          difficulty: {
+            type: "string",
+            enum: ["easy", "medium", "hard"],
+            description: "Bot difficulty (default: medium)",
+          },
+          count: {
+            type: "number",
+            description: "Number of bots to add (default: every empty slot)",
+          },
+        },
+      },
+    },
     {
       name: "getGameState",
       description:
         "Get the full current state of the game including all players, ball position, and score.",
       apiSpec: {
-        path: `/api/game/${gameId}/state`,
+        path: `/api/game/${gameId}/state?playerId={playerId}&playerToken={playerToken}`,
         method: "GET",
         baseUrl,
         headers: { Accept: "application/json" },
       },
       parameters: {
         type: "object",
-        required: [],
-        properties: {},
+        required: ["playerId", "playerToken"],
+        properties: {
+          playerId: {
+            type: "string",
+            description: "Your player ID",
+          },
+          playerToken: {
+            type: "string",
+            description: "Your secret playerToken (games with a spectator delay only show their live state to players)",
+          },
+        },
       },
     },
   ];
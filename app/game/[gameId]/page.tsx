@@ -3,20 +3,73 @@
 import { useState, useEffect, useCallback, use, useRef } from "react";
 import { useRouter } from "next/navigation";
 import GameCanvas from "@/components/GameCanvas";
-import type { GameState } from "@/types/game";
+import type { PublicGameState, GameEvent, Player, ReplayFrame, RestartType } from "@/types/game";
+import { GAME_CONFIG, RESTART_NAMES } from "@/types/game";
+
+const REPLAY_PLAY_STEP = 4; // ticks advanced per frame while a replay is playing
+
+function restartLabel(restart: RestartType): string {
+  const name = RESTART_NAMES[restart];
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function describeEvent(event: GameEvent, players: Player[]): string {
+  const name = (id?: string) => players.find(p => p.id === id)?.name ?? "Unknown";
+
+  switch (event.type) {
+    case "start":
+      return "Line-ups confirmed";
+    case "kickoff":
+      return `Kick-off - Team ${event.team}`;
+    case "possession":
+      return `${name(event.playerId)} has the ball`;
+    case "outOfPlay":
+      return `${restartLabel(event.restart)} - Team ${event.team}${event.takerId ? ` (${name(event.takerId)})` : ""}`;
+    case "offside":
+      return `Offside - ${name(event.playerId)}, indirect free kick to Team ${event.team}`;
+    case "foul":
+      return `Foul by ${name(event.playerId)} on ${name(event.targetPlayerId)} - ${RESTART_NAMES[event.restart]}`;
+    case "card":
+      return event.sentOff
+        ? `🟥 ${name(event.playerId)} is sent off (second yellow)`
+        : `🟨 ${name(event.playerId)} is booked`;
+    case "tackle":
+      return `${name(event.playerId)} tackles ${name(event.targetPlayerId)}: ${event.success ? "won the ball" : "missed"}`;
+    case "save":
+      return `${name(event.playerId)} ${event.success ? "makes the save" : "can't hold it"} (${Math.round(event.chance * 100)}%)`;
+    case "goal":
+      return `GOAL! Team ${event.team}${event.scorerId ? ` (${name(event.scorerId)})` : ""} - ${event.score.teamA}-${event.score.teamB}`;
+    case "halftime":
+      return `Half-time - ${event.score.teamA}-${event.score.teamB}, teams change ends`;
+    case "goldenGoal":
+      return "Full time, scores level - next goal wins";
+    case "finish":
+      return event.winner ? `Full time - Team ${event.winner} wins` : "Full time";
+    case "action":
+      return `${name(event.action.playerId)}: ${event.action.type}`;
+  }
+}
 
 export default function GamePage({ params }: { params: Promise<{ gameId: string }> }) {
   const { gameId } = use(params);
   const router = useRouter();
-  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [gameState, setGameState] = useState<PublicGameState | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(true);
+  const [viewers, setViewers] = useState(0);
+  const [spectatorDelay, setSpectatorDelay] = useState(0);
+  const spectatorDelayRef = useRef<number>(0);
   const errorCountRef = useRef<number>(0);
   const successCountRef = useRef<number>(0);
   const MAX_CONSECUTIVE_ERRORS = 5; // Show full error page after 5 consecutive failures
   const WARNING_BANNER_THRESHOLD = 3; // Show warning banner after 3 consecutive errors
 
+  // Replay scrubber for finished matches (null tick = showing the live state)
+  const [replayTick, setReplayTick] = useState<number | null>(null);
+  const [replayFrame, setReplayFrame] = useState<ReplayFrame | null>(null);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+
   const fetchGameState = useCallback(async () => {
     try {
       const res = await fetch(`/api/game/${gameId}/state`, {
@@ -72,7 +125,23 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
 
     const setupSSE = () => {
       try {
-        eventSource = new EventSource(`/api/game/${gameId}/stream`);
+        eventSource = new EventSource(`/api/game/${gameId}/spectate`);
+
+        eventSource.addEventListener("viewers", (event) => {
+          try {
+            const data = JSON.parse(event.data);
+            setViewers(data.viewers);
+            setSpectatorDelay(data.delay);
+            spectatorDelayRef.current = data.delay;
+          } catch (e) {
+            console.error("Error parsing SSE viewers:", e);
+          }
+        });
+
+        // Full time - the final state has arrived, nothing more to stream
+        eventSource.addEventListener("end", () => {
+          eventSource?.close();
+        });
 
         eventSource.addEventListener("init", (event) => {
           try {
@@ -105,8 +174,9 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
           // Don't immediately show warning - let polling handle it
           // If polling succeeds, no banner. If polling fails 3+ times, banner shows.
 
-          // Fall back to polling
-          if (!fallbackInterval) {
+          // Fall back to polling - unless the game delays spectators, which
+          // the live state endpoint would bypass
+          if (!fallbackInterval && spectatorDelayRef.current === 0) {
             fallbackInterval = setInterval(fetchGameState, 1000);
             fetchGameState(); // Immediate fetch
           }
@@ -153,6 +223,46 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
     };
   }, [gameId, fetchGameState]);
 
+  useEffect(() => {
+    if (replayTick === null) return;
+    let cancelled = false;
+
+    fetch(`/api/game/${gameId}/replay?tick=${replayTick}`, { cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled && data.success) {
+          setReplayFrame(data.replay);
+        }
+      })
+      .catch(err => console.error("Error fetching replay:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, replayTick]);
+
+  // Playback steps forward only once the previous frame has arrived
+  useEffect(() => {
+    if (!replayPlaying || !replayFrame) return;
+
+    if (replayFrame.tick >= replayFrame.endTick) {
+      setReplayPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setReplayTick(Math.min(replayFrame.tick + REPLAY_PLAY_STEP, replayFrame.endTick));
+    }, GAME_CONFIG.SIMULATION_STEP * REPLAY_PLAY_STEP);
+
+    return () => clearTimeout(timeout);
+  }, [replayPlaying, replayFrame]);
+
+  const exitReplay = () => {
+    setReplayTick(null);
+    setReplayFrame(null);
+    setReplayPlaying(false);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
@@ -216,24 +326,118 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
           >
             ← Back to Games
           </button>
-          <h1 className="text-3xl font-bold text-white">
-            ⚽ Live Match
-          </h1>
-          <div className="w-32"></div> {/* Spacer for centering */}
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-white">
+              ⚽ Live Match
+            </h1>
+            <p className="text-sm text-gray-400">
+              👁 {viewers} watching{spectatorDelay > 0 && ` · ${Math.round(spectatorDelay / 1000)}s delay`}
+            </p>
+          </div>
+          {gameState.tournament ? (
+            <button
+              onClick={() => router.push(`/tournament/${gameState.tournament!.tournamentId}`)}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600"
+            >
+              Tournament →
+            </button>
+          ) : (
+            <div className="w-32"></div>
+          )}
         </div>
 
         {/* Game Canvas */}
         <div className="mb-6">
-          <GameCanvas gameState={gameState} />
+          <GameCanvas gameState={replayTick !== null && replayFrame ? replayFrame.gameState : gameState} />
         </div>
 
+        {/* Replay Scrubber */}
+        {gameState.status === "finished" && (
+          <div className="mb-6 bg-gray-800 rounded-lg p-4 text-white">
+            {replayTick === null ? (
+              <button
+                onClick={() => setReplayTick(0)}
+                className="px-4 py-2 bg-green-600 rounded-lg hover:bg-green-700"
+              >
+                ▶ Watch Replay
+              </button>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => replayFrame && setReplayTick(Math.max(replayFrame.tick - 1, replayFrame.startTick))}
+                    disabled={!replayFrame}
+                    className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    ◀
+                  </button>
+                  <button
+                    onClick={() => setReplayPlaying(!replayPlaying)}
+                    disabled={!replayFrame}
+                    className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50 w-20"
+                  >
+                    {replayPlaying ? "Pause" : "Play"}
+                  </button>
+                  <button
+                    onClick={() => replayFrame && setReplayTick(Math.min(replayFrame.tick + 1, replayFrame.endTick))}
+                    disabled={!replayFrame}
+                    className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    ▶
+                  </button>
+                  <input
+                    type="range"
+                    min={replayFrame?.startTick ?? 0}
+                    max={replayFrame?.endTick ?? 0}
+                    value={replayFrame ? Math.max(replayTick, replayFrame.startTick) : 0}
+                    onChange={(e) => {
+                      setReplayPlaying(false);
+                      setReplayTick(Number(e.target.value));
+                    }}
+                    disabled={!replayFrame}
+                    className="flex-1"
+                  />
+                  <span className="text-sm text-gray-300 w-36 text-right">
+                    {replayFrame
+                      ? `${((replayFrame.tick - replayFrame.startTick) * GAME_CONFIG.SIMULATION_STEP / 1000).toFixed(1)}s (tick ${replayFrame.tick})`
+                      : "Loading..."}
+                  </span>
+                  <button
+                    onClick={exitReplay}
+                    className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600"
+                  >
+                    Exit Replay
+                  </button>
+                </div>
+                {replayFrame && replayFrame.events.length > 0 && (
+                  <div className="text-sm text-gray-400 space-y-1">
+                    {replayFrame.events
+                      .filter(event => event.type !== "action")
+                      .slice(-5)
+                      .reverse()
+                      .map((event, i) => (
+                        <div key={`${event.tick}-${i}`}>
+                          <span className="text-gray-500 mr-2">tick {event.tick}</span>
+                          {describeEvent(event, [...replayFrame.gameState.teamA, ...replayFrame.gameState.teamB, ...(gameState.sentOff ?? [])])}
+                        </div>
+                      ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Team Rosters */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Team A */}
           <div className="bg-gray-800 rounded-lg p-6">
             <h2 className="text-2xl font-bold text-red-500 mb-4">
-              Team A ({gameState.teamA.length} players)
+              Team A ({gameState.teamA.length} players{gameState.formations?.A ? `, ${gameState.formations.A}` : ""})
             </h2>
+            {gameState.controllers?.A && (
+              <p className="text-gray-400 text-sm -mt-2 mb-4">🎮 Controlled by {gameState.controllers.A.name}</p>
+            )}
             <div className="space-y-2">
               {gameState.teamA.map((player) => (
                 <div
@@ -243,9 +447,12 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
                   <div>
                     <span className="text-white font-semibold">{player.name}</span>
                     <span className="text-gray-400 text-sm ml-2">({player.role})</span>
+                    {player.bot && <span className="ml-2" title={`${player.bot} bot`}>🤖</span>}
+                    {player.yellowCards > 0 && <span className="ml-2">🟨</span>}
                   </div>
                   <div className="text-sm text-gray-300">
                     ⚽ {player.stats.goals} | 🎯 {player.stats.assists}
+                    {player.role === "goalkeeper" && <> | 🧤 {player.stats.saves ?? 0}</>}
                   </div>
                 </div>
               ))}
@@ -255,8 +462,11 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
           {/* Team B */}
           <div className="bg-gray-800 rounded-lg p-6">
             <h2 className="text-2xl font-bold text-blue-500 mb-4">
-              Team B ({gameState.teamB.length} players)
+              Team B ({gameState.teamB.length} players{gameState.formations?.B ? `, ${gameState.formations.B}` : ""})
             </h2>
+            {gameState.controllers?.B && (
+              <p className="text-gray-400 text-sm -mt-2 mb-4">🎮 Controlled by {gameState.controllers.B.name}</p>
+            )}
             <div className="space-y-2">
               {gameState.teamB.map((player) => (
                 <div
@@ -266,9 +476,12 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
                   <div>
                     <span className="text-white font-semibold">{player.name}</span>
                     <span className="text-gray-400 text-sm ml-2">({player.role})</span>
+                    {player.bot && <span className="ml-2" title={`${player.bot} bot`}>🤖</span>}
+                    {player.yellowCards > 0 && <span className="ml-2">🟨</span>}
                   </div>
                   <div className="text-sm text-gray-300">
                     ⚽ {player.stats.goals} | 🎯 {player.stats.assists}
+                    {player.role === "goalkeeper" && <> | 🧤 {player.stats.saves ?? 0}</>}
                   </div>
                 </div>
               ))}
@@ -276,6 +489,20 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
           </div>
         </div>
 
+        {/* Sent off */}
+        {gameState.sentOff?.length > 0 && (
+          <div className="mt-6 bg-gray-800 rounded-lg p-6 text-white">
+            <h2 className="text-xl font-bold mb-3">🟥 Sent off</h2>
+            <div className="flex flex-wrap gap-2">
+              {gameState.sentOff.map((player) => (
+                <span key={player.id} className={`rounded px-3 py-1 text-sm bg-gray-700 ${player.team === "A" ? "text-red-400" : "text-blue-400"}`}>
+                  {player.name} ({player.role})
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Game Info */}
         <div className="mt-6 bg-gray-800 rounded-lg p-6 text-white">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
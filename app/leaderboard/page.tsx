@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import type { PublicRating, RatingKind } from "@/types/game";
+
+type LeaderboardEntry = PublicRating & { rank: number };
+
+export default function Leaderboard() {
+  const [kind, setKind] = useState<RatingKind>("profile");
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchLeaderboard();
+    const interval = setInterval(fetchLeaderboard, 10000);
+    return () => clearInterval(interval);
+  }, [kind]);
+
+  async function fetchLeaderboard() {
+    try {
+      const res = await fetch(`/api/leaderboard?kind=${kind}`);
+      const data = await res.json();
+      if (data.success && data.kind === kind) {
+        setEntries(data.leaderboard);
+      }
+    } catch (error) {
+      console.error("Error fetching leaderboard:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function lastChange(entry: LeaderboardEntry) {
+    const last = entry.history[0];
+    if (!last) return null;
+    const change = Math.round(last.after - last.before);
+    return (
+      <span className={change >= 0 ? "text-green-600" : "text-red-600"}>
+        {change >= 0 ? `+${change}` : change}
+      </span>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-5xl font-bold text-gray-800 mb-4">
+            🏆 Leaderboard
+          </h1>
+          <p className="text-xl text-gray-600">
+            Elo ratings from finished matches
+          </p>
+          <Link href="/" className="inline-block mt-4 text-green-600 font-semibold hover:underline">
+            ← Back to games
+          </Link>
+        </div>
+
+        <div className="max-w-4xl mx-auto">
+          <div className="flex gap-2 mb-6">
+            {(["profile", "team"] as RatingKind[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setKind(option)}
+                className={`px-6 py-2 rounded-lg font-semibold transition ${
+                  kind === option ? "bg-green-600 text-white" : "bg-white text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                {option === "profile" ? "Players" : "Team Compositions"}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+              <p className="mt-4 text-gray-600">Loading leaderboard...</p>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12 bg-white rounded-lg shadow">
+              <p className="text-xl text-gray-600">No rated matches yet. Play with a profile to get on the board!</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+              <table className="w-full text-left">
+                <thead className="bg-gray-50 text-gray-600 text-sm">
+                  <tr>
+                    <th className="px-4 py-3">#</th>
+                    <th className="px-4 py-3">{kind === "profile" ? "Player" : "Players"}</th>
+                    <th className="px-4 py-3 text-right">Rating</th>
+                    <th className="px-4 py-3 text-right">Last</th>
+                    <th className="px-4 py-3 text-right">Peak</th>
+                    <th className="px-4 py-3 text-right">Games</th>
+                    <th className="px-4 py-3 text-right">W-D-L</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="border-t border-gray-100">
+                      <td className="px-4 py-3 font-bold text-gray-800">{entry.rank}</td>
+                      <td className="px-4 py-3 text-gray-800">{entry.handles.join(" + ")}</td>
+                      <td className="px-4 py-3 text-right font-bold text-gray-800">{Math.round(entry.rating)}</td>
+                      <td className="px-4 py-3 text-right">{lastChange(entry)}</td>
+                      <td className="px-4 py-3 text-right text-gray-600">{Math.round(entry.peak)}</td>
+                      <td className="px-4 py-3 text-right text-gray-600">{entry.games}</td>
+                      <td className="px-4 py-3 text-right text-gray-600">
+                        {entry.wins}-{entry.draws}-{entry.losses}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
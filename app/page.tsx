@@ -2,10 +2,10 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
-import type { GameState } from "@/types/game";
+import type { GameListing } from "@/types/game";
 
 export default function Home() {
-  const [games, setGames] = useState<GameState[]>([]);
+  const [games, setGames] = useState<GameListing[]>([]);
   const [loading, setLoading] = useState(true);
   const [playerName, setPlayerName] = useState("");
   const [creating, setCreating] = useState(false);
@@ -62,6 +62,7 @@ export default function Home() {
     switch (status) {
       case "waiting": return "bg-yellow-500";
       case "countdown": return "bg-orange-500";
+      case "kickoff": return "bg-green-500";
       case "playing": return "bg-green-500";
       case "finished": return "bg-gray-500";
       default: return "bg-gray-400";
@@ -72,6 +73,7 @@ export default function Home() {
     switch (status) {
       case "waiting": return "Waiting for Players";
       case "countdown": return "Starting Soon";
+      case "kickoff": return "Kick-off";
       case "playing": return "In Progress";
       case "finished": return "Finished";
       default: return status;
@@ -89,6 +91,9 @@ export default function Home() {
           <p className="text-xl text-gray-600">
             AI Agent Soccer - Watch live 5v5 matches
           </p>
+          <Link href="/leaderboard" className="inline-block mt-4 text-green-600 font-semibold hover:underline">
+            🏆 Leaderboard →
+          </Link>
         </div>
 
         {/* Create Game Section */}
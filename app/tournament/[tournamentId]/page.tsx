@@ -0,0 +1,189 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import Link from "next/link";
+import type { PublicTournament, TournamentFixture, Standing } from "@/types/game";
+
+interface BracketRound {
+  round: number;
+  name: string;
+  fixtures: TournamentFixture[];
+}
+
+export default function TournamentPage({ params }: { params: Promise<{ tournamentId: string }> }) {
+  const { tournamentId } = use(params);
+  const [tournament, setTournament] = useState<PublicTournament | null>(null);
+  const [standings, setStandings] = useState<Standing[]>([]);
+  const [bracket, setBracket] = useState<BracketRound[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchTournament();
+    const interval = setInterval(fetchTournament, 5000);
+    return () => clearInterval(interval);
+  }, [tournamentId]);
+
+  async function fetchTournament() {
+    try {
+      const res = await fetch(`/api/tournaments/${tournamentId}`);
+      const data = await res.json();
+      if (data.success) {
+        setTournament(data.tournament);
+        setStandings(data.standings);
+        setBracket(data.bracket ?? []);
+        setError("");
+      } else {
+        setError(data.message || "Failed to load tournament");
+      }
+    } catch (error) {
+      console.error("Error fetching tournament:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-xl text-gray-600">{error || "Tournament not found"}</p>
+      </div>
+    );
+  }
+
+  const entrantName = (entrantId: string | null) =>
+    entrantId ? tournament.entrants.find(e => e.entrantId === entrantId)?.name ?? "Unknown" : "TBD";
+
+  function fixtureCard(fixture: TournamentFixture) {
+    const content = (
+      <div className="flex items-center justify-between gap-4">
+        <span className={`flex-1 ${fixture.winner === fixture.home ? "font-bold" : ""}`}>{entrantName(fixture.home)}</span>
+        <span className="text-gray-800 font-semibold whitespace-nowrap">
+          {fixture.status === "bye" ? "bye" : fixture.score ? `${fixture.score.teamA} - ${fixture.score.teamB}` : "vs"}
+        </span>
+        <span className={`flex-1 text-right ${fixture.winner === fixture.away ? "font-bold" : ""}`}>
+          {fixture.status === "bye" ? "" : entrantName(fixture.away)}
+        </span>
+      </div>
+    );
+
+    return fixture.gameId ? (
+      <Link
+        key={fixture.fixtureId}
+        href={`/game/${fixture.gameId}`}
+        className="block bg-white rounded-lg shadow px-4 py-3 hover:shadow-lg transition-shadow text-gray-700"
+      >
+        {content}
+        <div className="text-xs text-green-600 mt-1">
+          {fixture.status === "finished" ? "View game →" : "Watch live →"}
+        </div>
+      </Link>
+    ) : (
+      <div key={fixture.fixtureId} className="bg-white rounded-lg shadow px-4 py-3 text-gray-500">
+        {content}
+      </div>
+    );
+  }
+
+  const rounds = [...new Set(tournament.fixtures.map(f => f.round))].sort((a, b) => a - b);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-5xl font-bold text-gray-800 mb-4">🏟️ {tournament.name}</h1>
+          <p className="text-xl text-gray-600">
+            {tournament.format === "roundRobin" ? "Round robin" : "Knockout"} · {tournament.entrants.length} teams ·{" "}
+            {tournament.config.playersPerTeam}v{tournament.config.playersPerTeam}
+          </p>
+          {tournament.winner && (
+            <div className="inline-block mt-4 px-6 py-2 bg-yellow-100 rounded text-yellow-800 font-semibold">
+              🏆 {entrantName(tournament.winner)} wins!
+            </div>
+          )}
+          {tournament.status === "registering" && (
+            <p className="mt-4 text-gray-500">Registration is open - fixtures haven&apos;t been generated yet</p>
+          )}
+          <div className="mt-4">
+            <Link href="/" className="text-green-600 font-semibold hover:underline">
+              ← Back to games
+            </Link>
+          </div>
+        </div>
+
+        <div className="max-w-6xl mx-auto space-y-8">
+          {tournament.format === "roundRobin" ? (
+            <>
+              {/* Standings */}
+              <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+                <table className="w-full text-left">
+                  <thead className="bg-gray-50 text-gray-600 text-sm">
+                    <tr>
+                      <th className="px-4 py-3">#</th>
+                      <th className="px-4 py-3">Team</th>
+                      <th className="px-4 py-3 text-right">P</th>
+                      <th className="px-4 py-3 text-right">W</th>
+                      <th className="px-4 py-3 text-right">D</th>
+                      <th className="px-4 py-3 text-right">L</th>
+                      <th className="px-4 py-3 text-right">GF</th>
+                      <th className="px-4 py-3 text-right">GA</th>
+                      <th className="px-4 py-3 text-right">GD</th>
+                      <th className="px-4 py-3 text-right">Pts</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {standings.map((row) => (
+                      <tr key={row.entrantId} className="border-t border-gray-100 text-gray-700">
+                        <td className="px-4 py-3 font-bold text-gray-800">{row.rank}</td>
+                        <td className="px-4 py-3 text-gray-800">{row.name}</td>
+                        <td className="px-4 py-3 text-right">{row.played}</td>
+                        <td className="px-4 py-3 text-right">{row.won}</td>
+                        <td className="px-4 py-3 text-right">{row.drawn}</td>
+                        <td className="px-4 py-3 text-right">{row.lost}</td>
+                        <td className="px-4 py-3 text-right">{row.goalsFor}</td>
+                        <td className="px-4 py-3 text-right">{row.goalsAgainst}</td>
+                        <td className="px-4 py-3 text-right">{row.goalDifference}</td>
+                        <td className="px-4 py-3 text-right font-bold text-gray-800">{row.points}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Fixtures */}
+              {rounds.map((round) => (
+                <div key={round}>
+                  <h2 className="text-2xl font-bold text-gray-800 mb-3">Round {round}</h2>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {tournament.fixtures.filter(f => f.round === round).map(fixtureCard)}
+                  </div>
+                </div>
+              ))}
+            </>
+          ) : (
+            /* Bracket */
+            <div className="flex gap-6 overflow-x-auto pb-4">
+              {bracket.map((round) => (
+                <div key={round.round} className="min-w-[16rem] flex-1 flex flex-col">
+                  <h2 className="text-xl font-bold text-gray-800 mb-3 text-center">{round.name}</h2>
+                  <div className="flex-1 flex flex-col justify-around gap-3">
+                    {round.fixtures.map(fixtureCard)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,20 @@
 "use client";
 
 import { useEffect, useRef } from "react";
-import type { GameState, Player } from "@/types/game";
+import type { PublicGameState, Player, RestartType } from "@/types/game";
 import { GAME_CONFIG } from "@/types/game";
 
+const RESTART_LABELS: Record<RestartType, string> = {
+  throwIn: "Throw-in",
+  goalKick: "Goal kick",
+  corner: "Corner",
+  freeKick: "Free kick",
+  indirectFreeKick: "Indirect free kick",
+  penalty: "Penalty",
+};
+
 interface GameCanvasProps {
-  gameState: GameState;
+  gameState: PublicGameState;
 }
 
 export default function GameCanvas({ gameState }: GameCanvasProps) {
@@ -22,7 +31,7 @@ export default function GameCanvas({ gameState }: GameCanvasProps) {
     ctx.clearRect(0, 0, GAME_CONFIG.FIELD_WIDTH, GAME_CONFIG.FIELD_HEIGHT);
 
     // Draw field
-    drawField(ctx);
+    drawField(ctx, gameState);
 
     // Draw players
     gameState.teamA.forEach(player => drawPlayer(ctx, player, "#EF4444")); // Red
@@ -35,7 +44,7 @@ export default function GameCanvas({ gameState }: GameCanvasProps) {
     drawStatus(ctx, gameState);
   }, [gameState]);
 
-  function drawField(ctx: CanvasRenderingContext2D) {
+  function drawField(ctx: CanvasRenderingContext2D, state: PublicGameState) {
     // Grass background
     const gradient = ctx.createLinearGradient(0, 0, 0, GAME_CONFIG.FIELD_HEIGHT);
     gradient.addColorStop(0, "#22C55E");
@@ -58,19 +67,36 @@ export default function GameCanvas({ gameState }: GameCanvasProps) {
 
     // Center circle
     ctx.beginPath();
-    ctx.arc(GAME_CONFIG.FIELD_WIDTH / 2, GAME_CONFIG.FIELD_HEIGHT / 2, 80, 0, Math.PI * 2);
+    ctx.arc(GAME_CONFIG.FIELD_WIDTH / 2, GAME_CONFIG.FIELD_HEIGHT / 2, GAME_CONFIG.CENTRE_CIRCLE_RADIUS, 0, Math.PI * 2);
     ctx.stroke();
 
+    // Penalty areas
+    const boxY = GAME_CONFIG.FIELD_HEIGHT / 2 - GAME_CONFIG.PENALTY_AREA_WIDTH / 2;
+    ctx.strokeRect(10, boxY, GAME_CONFIG.PENALTY_AREA_DEPTH - 10, GAME_CONFIG.PENALTY_AREA_WIDTH);
+    ctx.strokeRect(GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.PENALTY_AREA_DEPTH, boxY, GAME_CONFIG.PENALTY_AREA_DEPTH - 10, GAME_CONFIG.PENALTY_AREA_WIDTH);
+
+    // Penalty spots
+    ctx.fillStyle = "#FFFFFF";
+    for (const spotX of [GAME_CONFIG.PENALTY_SPOT_DISTANCE, GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.PENALTY_SPOT_DISTANCE]) {
+      ctx.beginPath();
+      ctx.arc(spotX, GAME_CONFIG.FIELD_HEIGHT / 2, 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
     // Goals
     const goalY = GAME_CONFIG.FIELD_HEIGHT / 2 - GAME_CONFIG.GOAL_WIDTH / 2;
 
-    // Left goal (Team A)
-    ctx.fillStyle = "#DC2626";
+    // Goals take the colour of the team defending them (Team A starts on the left, ends swap at half-time)
+    const leftColor = state.sidesSwapped ? "#2563EB" : "#DC2626";
+    const rightColor = state.sidesSwapped ? "#DC2626" : "#2563EB";
+
+    // Left goal
+    ctx.fillStyle = leftColor;
     ctx.fillRect(0, goalY, GAME_CONFIG.GOAL_HEIGHT, GAME_CONFIG.GOAL_WIDTH);
     ctx.strokeRect(0, goalY, GAME_CONFIG.GOAL_HEIGHT, GAME_CONFIG.GOAL_WIDTH);
 
-    // Right goal (Team B)
-    ctx.fillStyle = "#2563EB";
+    // Right goal
+    ctx.fillStyle = rightColor;
     ctx.fillRect(GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.GOAL_HEIGHT, goalY, GAME_CONFIG.GOAL_HEIGHT, GAME_CONFIG.GOAL_WIDTH);
     ctx.strokeRect(GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.GOAL_HEIGHT, goalY, GAME_CONFIG.GOAL_HEIGHT, GAME_CONFIG.GOAL_WIDTH);
   }
@@ -105,6 +131,12 @@ export default function GameCanvas({ gameState }: GameCanvasProps) {
     // Role indicator
     ctx.font = "10px Arial";
     ctx.fillText(player.role[0].toUpperCase(), player.position.x, player.position.y + 4);
+
+    // Booked players carry a yellow card
+    if (player.yellowCards > 0) {
+      ctx.fillStyle = "#FACC15";
+      ctx.fillRect(player.position.x + GAME_CONFIG.PLAYER_RADIUS - 2, player.position.y - GAME_CONFIG.PLAYER_RADIUS - 4, 7, 10);
+    }
   }
 
   function drawBall(ctx: CanvasRenderingContext2D, x: number, y: number) {
@@ -126,7 +158,7 @@ export default function GameCanvas({ gameState }: GameCanvasProps) {
     ctx.fill();
   }
 
-  function drawStatus(ctx: CanvasRenderingContext2D, state: GameState) {
+  function drawStatus(ctx: CanvasRenderingContext2D, state: PublicGameState) {
     // Score board
     ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
     ctx.fillRect(GAME_CONFIG.FIELD_WIDTH / 2 - 150, 20, 300, 60);
@@ -140,6 +172,36 @@ export default function GameCanvas({ gameState }: GameCanvasProps) {
       60
     );
 
+    // Match clock
+    if (state.config.matchDuration && state.status !== "waiting") {
+      const remaining = Math.max(0, state.config.matchDuration - state.matchTime);
+      const overtime = state.matchTime >= state.config.matchDuration && (state.status === "playing" || state.status === "kickoff");
+      const halfLabel = state.config.halves === 2 ? (state.half === 1 ? "1st half" : "2nd half") : "";
+
+      ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
+      ctx.fillRect(GAME_CONFIG.FIELD_WIDTH / 2 - 100, 80, 200, 28);
+      ctx.fillStyle = overtime ? "#FCD34D" : "#FFFFFF";
+      ctx.font = "bold 16px Arial";
+      ctx.fillText(
+        overtime ? "GOLDEN GOAL" : [halfLabel, formatClock(remaining)].filter(Boolean).join("  "),
+        GAME_CONFIG.FIELD_WIDTH / 2,
+        100
+      );
+    }
+
+    // Red cards, under each team's end of the score board
+    const sentOff = state.sentOff ?? [];
+    if (sentOff.length > 0) {
+      ctx.font = "bold 12px Arial";
+      ctx.fillStyle = "#F87171";
+      (["A", "B"] as const).forEach((team, i) => {
+        const names = sentOff.filter(p => p.team === team).map(p => p.name);
+        if (names.length > 0) {
+          ctx.fillText(`🟥 ${names.join(", ")}`, GAME_CONFIG.FIELD_WIDTH / 2 + (i === 0 ? -240 : 240), 55);
+        }
+      });
+    }
+
     // Status text
     if (state.status === "waiting") {
       ctx.font = "bold 24px Arial";
@@ -160,17 +222,40 @@ export default function GameCanvas({ gameState }: GameCanvasProps) {
         GAME_CONFIG.FIELD_WIDTH / 2,
         GAME_CONFIG.FIELD_HEIGHT / 2
       );
-    } else if (state.status === "finished" && state.winner) {
+    } else if (state.status === "kickoff" && state.kickoffTeam) {
+      ctx.font = "bold 20px Arial";
+      ctx.fillStyle = "#FCD34D";
+      ctx.fillText(
+        `Kick-off: Team ${state.kickoffTeam}`,
+        GAME_CONFIG.FIELD_WIDTH / 2,
+        GAME_CONFIG.FIELD_HEIGHT - 40
+      );
+    } else if (state.restart) {
+      ctx.font = "bold 20px Arial";
+      ctx.fillStyle = "#FCD34D";
+      ctx.fillText(
+        `${RESTART_LABELS[state.restart.type]}: Team ${state.restart.team}`,
+        GAME_CONFIG.FIELD_WIDTH / 2,
+        GAME_CONFIG.FIELD_HEIGHT - 40
+      );
+    } else if (state.status === "finished") {
       ctx.font = "bold 48px Arial";
       ctx.fillStyle = "#FCD34D";
       ctx.fillText(
-        `Team ${state.winner} Wins! 🏆`,
+        state.winner ? `Team ${state.winner} Wins! 🏆` : "Draw!",
         GAME_CONFIG.FIELD_WIDTH / 2,
         GAME_CONFIG.FIELD_HEIGHT / 2
       );
     }
   }
 
+  function formatClock(ms: number): string {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  }
+
   return (
     <div className="flex justify-center items-center bg-gray-900 p-4 rounded-lg shadow-2xl">
       <canvas
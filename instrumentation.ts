@@ -0,0 +1,19 @@
+export async function register() {
+  // Imports stay inside this check so the edge build never tries to bundle
+  // Node-only modules (mongoose, crypto)
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Run the game loop inside the Next.js server process when requested.
+    // GAME_LOOP=worker expects a separate `npm run worker` process instead.
+    if (process.env.GAME_LOOP === "in-process") {
+      const { startGameLoop } = await import("./lib/gameLoop");
+      await startGameLoop();
+    }
+
+    // Bots run next to the game loop (in the worker when there is one),
+    // and only when BOTS=on
+    if (process.env.GAME_LOOP !== "worker") {
+      const { startBotRunner, isBotRunnerEnabled } = await import("./lib/botRunner");
+      if (isBotRunnerEnabled()) await startBotRunner();
+    }
+  }
+}
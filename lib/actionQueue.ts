@@ -0,0 +1,112 @@
+import { GAME_CONFIG, GameAction, ActionResult } from "@/types/game";
+import { v4 as uuidv4 } from "uuid";
+import { getGameStore, QueuedAction } from "./gameStore";
+
+/**
+ * Per-game action queue used when a game loop owns the simulation.
+ *
+ * API routes append actions here instead of loading and saving the game
+ * themselves. The loop claims pending actions every tick, applies them in
+ * arrival order and writes the result back for the waiting caller.
+ *
+ * An action is applied at most once and the caller always learns whether
+ * it was: a caller that times out atomically moves its action from
+ * `pending` to `expired`, which the loop never claims. If that update
+ * loses, the loop already claimed the action and its result is on the way.
+ */
+
+export function isGameLoopEnabled(): boolean {
+  const mode = process.env.GAME_LOOP;
+  return mode === 'in-process' || mode === 'worker';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Queue an action and wait for the game loop to apply it
+ */
+export async function enqueueAction(gameId: string, action: GameAction): Promise<ActionResult> {
+  return enqueue(gameId, action) as Promise<ActionResult>;
+}
+
+/**
+ * Queue a batch of actions for the loop to apply together on one tick.
+ * Results come back in the same order.
+ */
+export async function enqueueActions(gameId: string, actions: GameAction[]): Promise<ActionResult[]> {
+  return enqueue(gameId, actions) as Promise<ActionResult[]>;
+}
+
+async function enqueue(gameId: string, action: GameAction | GameAction[]): Promise<ActionResult | ActionResult[]> {
+  const store = getGameStore();
+  const everyAction = (result: ActionResult) => Array.isArray(action) ? action.map(() => result) : result;
+
+  // Fail fast instead of waiting for a loop that will never pick this game up
+  const game = await store.load(gameId);
+  if (!game) return everyAction({ success: false, message: "Game not found" });
+  if (game.status !== 'playing' && game.status !== 'kickoff' && game.status !== 'countdown') {
+    return everyAction({ success: false, message: "Game not in progress" });
+  }
+
+  const actionId = uuidv4();
+  await store.actions.enqueue({
+    actionId,
+    gameId,
+    action,
+    status: 'pending',
+    createdAt: Date.now(),
+  });
+
+  return waitForActionResult(actionId, everyAction);
+}
+
+async function waitForActionResult(
+  actionId: string,
+  everyAction: (result: ActionResult) => ActionResult | ActionResult[]
+): Promise<ActionResult | ActionResult[]> {
+  const actions = getGameStore().actions;
+  const deadline = Date.now() + GAME_CONFIG.ACTION_TIMEOUT;
+
+  while (Date.now() < deadline) {
+    await sleep(GAME_CONFIG.SIMULATION_STEP);
+
+    const queued = await actions.get(actionId);
+    if (queued?.status === 'processed' && queued.result) {
+      return queued.result;
+    }
+  }
+
+  if (await actions.expire(actionId)) {
+    return everyAction({ success: false, lost: true, message: "Action timed out waiting for the game loop, please retry" });
+  }
+
+  // Claimed by a tick that is still running - give it one more timeout to report back
+  const lateDeadline = Date.now() + GAME_CONFIG.ACTION_TIMEOUT;
+  while (Date.now() < lateDeadline) {
+    const queued = await actions.get(actionId);
+    if (queued?.status === 'processed' && queued.result) {
+      return queued.result;
+    }
+    await sleep(GAME_CONFIG.SIMULATION_STEP);
+  }
+
+  console.error(`Action ${actionId} was claimed by the game loop but never resolved`);
+  return everyAction({ success: false, message: "Action result unknown - check the game state before retrying" });
+}
+
+/**
+ * Claim every pending action for the given games, oldest first.
+ * Actions nobody is waiting for any more are expired instead.
+ */
+export async function claimPendingActions(gameIds: string[]): Promise<QueuedAction[]> {
+  return getGameStore().actions.claim(gameIds, Date.now() - GAME_CONFIG.ACTION_TIMEOUT);
+}
+
+/**
+ * Record the outcome of applied actions so waiting callers can pick them up
+ */
+export async function resolveActions(results: Array<{ actionId: string; result: ActionResult | ActionResult[] }>): Promise<void> {
+  await getGameStore().actions.resolve(results);
+}
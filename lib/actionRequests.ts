@@ -0,0 +1,162 @@
+import type { GameAction, GameActionType } from "@/types/game";
+import { GAME_CONFIG } from "@/types/game";
+import { movePlayer, passBall, shoot, tackle, save, runActionBatch } from "./gameActions";
+import { authenticatePlayer, authenticatePlayers } from "./playerAuth";
+
+/**
+ * Agent action requests.
+ *
+ * The REST action routes and the agent WebSocket both go through these
+ * helpers, so a request gets the same validation, the same message and the
+ * same status (as an HTTP code) whichever transport it came in on.
+ */
+
+export const ACTION_TYPES: GameActionType[] = ['move', 'pass', 'shoot', 'tackle', 'save'];
+
+export interface ActionResponse {
+  status: number;
+  result: { success: boolean; message?: string; [key: string]: unknown };
+}
+
+/**
+ * Check the fields an action needs and build it from a request body
+ */
+export function parseActionRequest(
+  type: GameActionType,
+  body: any
+): { success: true; action: GameAction } | { success: false; message: string } {
+  const { playerId, targetX, targetY, targetPlayerId, speed } = body ?? {};
+
+  switch (type) {
+    case 'move':
+      if (!playerId || targetX === undefined || targetY === undefined) {
+        return { success: false, message: "playerId, targetX, and targetY are required" };
+      }
+      return { success: true, action: { type, playerId, targetX, targetY, speed } };
+
+    case 'pass':
+      if (!playerId || !targetPlayerId) {
+        return { success: false, message: "playerId and targetPlayerId are required" };
+      }
+      return { success: true, action: { type, playerId, targetPlayerId, speed } };
+
+    case 'tackle':
+      if (!playerId || !targetPlayerId) {
+        return { success: false, message: "playerId and targetPlayerId are required" };
+      }
+      return { success: true, action: { type, playerId, targetPlayerId } };
+
+    case 'shoot':
+      if (!playerId) {
+        return { success: false, message: "playerId is required" };
+      }
+      return { success: true, action: { type, playerId, speed } };
+
+    case 'save':
+      if (!playerId) {
+        return { success: false, message: "playerId is required" };
+      }
+      return { success: true, action: { type, playerId } };
+  }
+}
+
+/**
+ * Play an action through lib/gameActions.ts
+ */
+export async function performAction(gameId: string, action: GameAction) {
+  switch (action.type) {
+    case 'move':
+      return movePlayer(gameId, action.playerId, action.targetX, action.targetY, action.speed);
+    case 'pass':
+      return passBall(gameId, action.playerId, action.targetPlayerId, action.speed);
+    case 'shoot':
+      return shoot(gameId, action.playerId, action.speed);
+    case 'tackle':
+      return tackle(gameId, action.playerId, action.targetPlayerId);
+    case 'save':
+      return save(gameId, action.playerId);
+  }
+}
+
+/**
+ * Run an action for an already authenticated player
+ */
+export async function runActionRequest(gameId: string, action: GameAction): Promise<ActionResponse> {
+  const result = await performAction(gameId, action);
+  if (result.success) {
+    return { status: 200, result };
+  }
+  // 409 tells the agent the action was lost to a concurrent update and can be retried
+  return { status: result.lost ? 409 : 400, result };
+}
+
+/**
+ * Validate, authenticate and run an action request, as the action routes do
+ */
+export async function handleActionRequest(gameId: string, type: GameActionType, body: any): Promise<ActionResponse> {
+  const parsed = parseActionRequest(type, body);
+  if (!parsed.success) {
+    return { status: 400, result: { success: false, message: parsed.message } };
+  }
+
+  const auth = await authenticatePlayer(gameId, parsed.action.playerId, body.playerToken);
+  if (!auth.success) {
+    return { status: auth.status, result: { success: false, message: auth.message } };
+  }
+
+  return runActionRequest(gameId, parsed.action);
+}
+
+/**
+ * Validate, authenticate and run a batch request: `{ actions: [...] }`, each
+ * item a REST action body plus its `type`, all for players on one side. A
+ * malformed or unauthenticated item rejects the whole batch with that item's
+ * status; otherwise the actions are applied together and each gets its own
+ * result and status. An action that fails is skipped - the ones around it
+ * still apply and nothing is rolled back.
+ */
+export async function handleActionBatchRequest(gameId: string, body: any): Promise<ActionResponse> {
+  const items = body?.actions;
+  if (!Array.isArray(items) || items.length === 0) {
+    return { status: 400, result: { success: false, message: "actions must be a non-empty array" } };
+  }
+  if (items.length > GAME_CONFIG.BATCH_MAX_ACTIONS) {
+    return { status: 400, result: { success: false, message: `At most ${GAME_CONFIG.BATCH_MAX_ACTIONS} actions per batch` } };
+  }
+
+  const actions: GameAction[] = [];
+  for (const [index, item] of items.entries()) {
+    if (!ACTION_TYPES.includes(item?.type)) {
+      return { status: 400, result: { success: false, index, message: `actions[${index}]: type must be one of: ${ACTION_TYPES.join(", ")}` } };
+    }
+    const parsed = parseActionRequest(item.type, item);
+    if (!parsed.success) {
+      return { status: 400, result: { success: false, index, message: `actions[${index}]: ${parsed.message}` } };
+    }
+    actions.push(parsed.action);
+  }
+
+  const auth = await authenticatePlayers(gameId, items.map((item: any) => ({ playerId: item.playerId, token: item.playerToken })));
+  if (!auth.success) {
+    return { status: auth.status, result: { success: false, index: auth.index, message: `actions[${auth.index}]: ${auth.message}` } };
+  }
+
+  const results = await runActionBatch(gameId, actions);
+  const lost = results.some(result => result.lost);
+
+  return {
+    // Nothing in the batch landed if it was lost, so the whole batch can be retried
+    status: lost ? 409 : 200,
+    result: {
+      success: !lost,
+      applied: results.filter(result => result.success).length,
+      results: results.map((result, index) => ({
+        index,
+        type: actions[index].type,
+        playerId: actions[index].playerId,
+        status: result.success ? 200 : result.lost ? 409 : 400,
+        ...result,
+      })),
+    },
+  };
+}
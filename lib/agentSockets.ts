@@ -0,0 +1,301 @@
+import type { WebSocket } from "ws";
+import { GAME_CONFIG } from "@/types/game";
+import type { GameActionType, TeamId } from "@/types/game";
+import { getGameState } from "./gameLogic";
+import { generatePerception, generateTeamPerception } from "./perception";
+import { authenticatePlayer, authenticateController } from "./playerAuth";
+import { ACTION_TYPES, parseActionRequest, runActionRequest } from "./actionRequests";
+
+/**
+ * Agent WebSocket protocol (served by server.ts at /api/game/{gameId}/socket).
+ *
+ * Every message is a JSON object with a `type`. The agent authenticates
+ * first with `{ type: "auth", playerId, playerToken }`; from then on it is
+ * pushed a `perception` every SOCKET_TICK while the game changes and can
+ * send `{ type: "action", action: "move" | "pass" | ..., id?, ...fields }`
+ * with the same fields as the REST action routes. Each action gets a
+ * `result` echoing its `id`, with the `status` the REST route would have
+ * returned. See API_RESPONSE_FORMATS.md for the full protocol.
+ *
+ * A team controller authenticates with `{ type: "auth", team, controllerToken }`
+ * instead, is pushed the team perception and names the `playerId` on each
+ * action.
+ *
+ * All sockets of a game share one channel that reads the game state once
+ * per tick and builds each agent's perception from it.
+ */
+
+export const SOCKET_PROTOCOL_VERSION = 1;
+
+// Close codes (4000-4999 are free for applications)
+const CLOSE_NORMAL = 1000;
+const CLOSE_AUTH_FAILED = 4001;
+const CLOSE_AUTH_TIMEOUT = 4002;
+const CLOSE_GAME_NOT_FOUND = 4004;
+
+interface Connection {
+  socket: WebSocket;
+  gameId: string;
+  playerId: string | null;
+  team: TeamId | null; // set instead of playerId for a team controller
+  controllerToken: string | null;
+  authenticating: boolean;
+  authTimer: NodeJS.Timeout | null;
+  lastVersion: number | null;
+}
+
+interface Channel {
+  gameId: string;
+  connections: Set<Connection>;
+  timer: NodeJS.Timeout | null;
+  ticking: boolean;
+}
+
+/**
+ * Global is used here so hot reloads in development keep one channel per game
+ */
+let channels: Map<string, Channel> = (global as any).agentSocketChannels;
+
+if (!channels) {
+  channels = (global as any).agentSocketChannels = new Map();
+}
+
+function isAuthenticated(connection: Connection): boolean {
+  return connection.playerId !== null || connection.team !== null;
+}
+
+function send(connection: Connection, message: Record<string, unknown>) {
+  if (connection.socket.readyState !== connection.socket.OPEN) return;
+  connection.socket.send(JSON.stringify(message));
+}
+
+/**
+ * Take over a freshly upgraded socket for `gameId`
+ */
+export function acceptAgentSocket(socket: WebSocket, gameId: string) {
+  const connection: Connection = {
+    socket,
+    gameId,
+    playerId: null,
+    team: null,
+    controllerToken: null,
+    authenticating: false,
+    authTimer: null,
+    lastVersion: null,
+  };
+
+  connection.authTimer = setTimeout(() => {
+    if (isAuthenticated(connection)) return;
+    send(connection, { type: 'error', status: 401, message: "Authentication timed out" });
+    socket.close(CLOSE_AUTH_TIMEOUT, "Authentication timed out");
+  }, GAME_CONFIG.SOCKET_AUTH_TIMEOUT);
+
+  socket.on('message', (data) => {
+    void handleMessage(connection, data.toString()).catch((error) => {
+      console.error(`Error in agent socket for game ${gameId}:`, error);
+      send(connection, { type: 'error', status: 500, message: "Internal server error" });
+    });
+  });
+
+  socket.on('close', () => {
+    if (connection.authTimer) clearTimeout(connection.authTimer);
+    leaveChannel(connection);
+  });
+
+  socket.on('error', (error) => {
+    console.error(`Agent socket error for game ${gameId}:`, error);
+  });
+
+  send(connection, { type: 'hello', protocol: SOCKET_PROTOCOL_VERSION, gameId });
+}
+
+async function handleMessage(connection: Connection, raw: string) {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    send(connection, { type: 'error', status: 400, message: "Messages must be JSON" });
+    return;
+  }
+  if (typeof message !== 'object' || message === null) {
+    send(connection, { type: 'error', status: 400, message: "Messages must be JSON objects" });
+    return;
+  }
+
+  switch (message.type) {
+    case 'auth':
+      return handleAuth(connection, message);
+    case 'action':
+      return handleAction(connection, message);
+    default:
+      send(connection, { type: 'error', status: 400, message: "type must be auth or action", id: message.id });
+  }
+}
+
+async function handleAuth(connection: Connection, message: any) {
+  if (isAuthenticated(connection) || connection.authenticating) {
+    send(connection, { type: 'error', status: 400, message: "Already authenticated" });
+    return;
+  }
+
+  if (message.team !== undefined) {
+    return handleControllerAuth(connection, message);
+  }
+
+  const { playerId, playerToken } = message;
+  if (!playerId) {
+    send(connection, { type: 'auth', success: false, status: 400, message: "playerId is required" });
+    connection.socket.close(CLOSE_AUTH_FAILED, "playerId is required");
+    return;
+  }
+
+  connection.authenticating = true;
+  const auth = await authenticatePlayer(connection.gameId, playerId, playerToken);
+  connection.authenticating = false;
+
+  if (!auth.success) {
+    send(connection, { type: 'auth', success: false, status: auth.status, message: auth.message });
+    connection.socket.close(auth.status === 404 ? CLOSE_GAME_NOT_FOUND : CLOSE_AUTH_FAILED, auth.message);
+    return;
+  }
+
+  if (connection.authTimer) {
+    clearTimeout(connection.authTimer);
+    connection.authTimer = null;
+  }
+  connection.playerId = playerId;
+  send(connection, { type: 'auth', success: true, playerId });
+  joinChannel(connection);
+}
+
+async function handleControllerAuth(connection: Connection, message: any) {
+  const { team, controllerToken } = message;
+  if (team !== 'A' && team !== 'B') {
+    send(connection, { type: 'auth', success: false, status: 400, message: "team must be A or B" });
+    connection.socket.close(CLOSE_AUTH_FAILED, "team must be A or B");
+    return;
+  }
+
+  connection.authenticating = true;
+  const auth = await authenticateController(connection.gameId, team, controllerToken);
+  connection.authenticating = false;
+
+  if (!auth.success) {
+    send(connection, { type: 'auth', success: false, status: auth.status, message: auth.message });
+    connection.socket.close(auth.status === 404 ? CLOSE_GAME_NOT_FOUND : CLOSE_AUTH_FAILED, auth.message);
+    return;
+  }
+
+  if (connection.authTimer) {
+    clearTimeout(connection.authTimer);
+    connection.authTimer = null;
+  }
+  connection.team = team;
+  connection.controllerToken = controllerToken;
+  send(connection, { type: 'auth', success: true, team });
+  joinChannel(connection);
+}
+
+async function handleAction(connection: Connection, message: any) {
+  const { id, action: type } = message;
+
+  if (!isAuthenticated(connection)) {
+    send(connection, { type: 'result', id, status: 401, success: false, message: "Authenticate first" });
+    return;
+  }
+  if (!ACTION_TYPES.includes(type)) {
+    send(connection, { type: 'result', id, status: 400, success: false, message: `action must be one of: ${ACTION_TYPES.join(", ")}` });
+    return;
+  }
+
+  // The socket can only act for the player it authenticated as, or a controller's own side
+  const parsed = parseActionRequest(type as GameActionType, connection.team ? message : { ...message, playerId: connection.playerId });
+  if (!parsed.success) {
+    send(connection, { type: 'result', id, action: type, status: 400, success: false, message: parsed.message });
+    return;
+  }
+
+  if (connection.team) {
+    const auth = await authenticatePlayer(connection.gameId, parsed.action.playerId, connection.controllerToken);
+    if (!auth.success) {
+      send(connection, { type: 'result', id, action: type, status: auth.status, success: false, message: auth.message });
+      return;
+    }
+  }
+
+  const { status, result } = await runActionRequest(connection.gameId, parsed.action);
+  send(connection, { type: 'result', id, action: type, status, ...result });
+}
+
+function joinChannel(connection: Connection) {
+  let channel = channels.get(connection.gameId);
+  if (!channel) {
+    channel = { gameId: connection.gameId, connections: new Set(), timer: null, ticking: false };
+    channels.set(connection.gameId, channel);
+  }
+  channel.connections.add(connection);
+
+  if (!channel.timer) {
+    const started = channel;
+    started.timer = setInterval(() => {
+      void tick(started);
+    }, GAME_CONFIG.SOCKET_TICK);
+  }
+  void tick(channel);
+}
+
+function leaveChannel(connection: Connection) {
+  const channel = channels.get(connection.gameId);
+  if (!channel || !channel.connections.delete(connection)) return;
+
+  if (channel.connections.size === 0) {
+    if (channel.timer) clearInterval(channel.timer);
+    channels.delete(channel.gameId);
+  }
+}
+
+/**
+ * Read the game once and push each agent its perception if anything changed
+ */
+async function tick(channel: Channel) {
+  if (channel.ticking) return;
+  channel.ticking = true;
+
+  try {
+    const state = await getGameState(channel.gameId);
+
+    for (const connection of [...channel.connections]) {
+      if (!state) {
+        send(connection, { type: 'error', status: 404, message: "Game not found" });
+        connection.socket.close(CLOSE_GAME_NOT_FOUND, "Game not found");
+        continue;
+      }
+      if (state.version === connection.lastVersion) continue;
+
+      // A slow reader gets the next perception instead of a growing backlog
+      if (connection.socket.bufferedAmount > GAME_CONFIG.SOCKET_MAX_BUFFERED) continue;
+
+      const perception = connection.team
+        ? generateTeamPerception(state, connection.team)
+        : generatePerception(state, connection.playerId!);
+      if (!perception) {
+        // Sent off
+        send(connection, { type: 'error', status: 404, message: "Player not found in game" });
+        connection.socket.close(CLOSE_NORMAL, "Player not found in game");
+        continue;
+      }
+
+      send(connection, { type: 'perception', version: state.version, perception });
+      connection.lastVersion = state.version;
+
+      if (state.status === 'finished') {
+        send(connection, { type: 'end', score: state.score, winner: state.winner ?? null });
+        connection.socket.close(CLOSE_NORMAL, "Game finished");
+      }
+    }
+  } catch (error) {
+    console.error(`Agent socket tick failed for game ${channel.gameId}:`, error);
+  } finally {
+    channel.ticking = false;
+  }
+}
@@ -0,0 +1,161 @@
+import { GAME_CONFIG } from "@/types/game";
+import type { GameAction } from "@/types/game";
+import { getGameStore } from "./gameStore";
+import { getGameState } from "./gameLogic";
+import { generatePerception } from "./perception";
+import { isGameLoopEnabled } from "./actionQueue";
+import { performAction } from "./actionRequests";
+import { addBots, decideBotAction } from "./bots";
+
+/**
+ * Bot runner.
+ *
+ * Every LOOP_REFRESH_INTERVAL it looks for games in play that have bot
+ * players, and for waiting games whose `botFillTimeout` has run out (those
+ * get bots in every empty slot). Every BOT_TICK it lets each bot whose
+ * BOT_THINK_INTERVAL has passed read its perception and act.
+ *
+ * Off unless BOTS=on. Then it is started by instrumentation.ts in the
+ * Next.js server, or by the worker with GAME_LOOP=worker. Only one runner
+ * should run per database, so with several server processes set BOTS=on on
+ * just one of them.
+ */
+
+interface RunnerState {
+  running: boolean;
+  ticking: boolean;
+  timer: NodeJS.Timeout | null;
+  lastRefresh: number;
+  games: Map<string, Map<string, number>>; // gameId -> bot playerId -> next decision time
+}
+
+/**
+ * Global is used here so hot reloads in development don't start a second runner
+ */
+let runner: RunnerState = (global as any).botRunner;
+
+if (!runner) {
+  runner = (global as any).botRunner = {
+    running: false,
+    ticking: false,
+    timer: null,
+    lastRefresh: 0,
+    games: new Map(),
+  };
+}
+
+export function isBotRunnerEnabled(): boolean {
+  return process.env.BOTS === 'on';
+}
+
+export async function startBotRunner() {
+  if (runner.running) return;
+
+  runner.running = true;
+  runner.timer = setInterval(() => {
+    void tick();
+  }, GAME_CONFIG.BOT_TICK);
+
+  console.log(`Bot runner started, checking bots every ${GAME_CONFIG.BOT_TICK}ms`);
+}
+
+export async function stopBotRunner() {
+  if (!runner.running) return;
+
+  runner.running = false;
+  if (runner.timer) {
+    clearInterval(runner.timer);
+    runner.timer = null;
+  }
+  runner.games.clear();
+  runner.lastRefresh = 0;
+
+  console.log("Bot runner stopped");
+}
+
+async function tick() {
+  if (runner.ticking || !runner.running) return;
+  runner.ticking = true;
+
+  try {
+    const now = Date.now();
+
+    if (now - runner.lastRefresh >= GAME_CONFIG.LOOP_REFRESH_INTERVAL) {
+      // A failed refresh still waits the full interval instead of hitting
+      // the store again on every tick
+      try {
+        await refreshGames(now);
+      } finally {
+        runner.lastRefresh = now;
+      }
+    }
+
+    for (const [gameId, bots] of runner.games) {
+      const due = [...bots].filter(([, nextAt]) => nextAt <= now).map(([botId]) => botId);
+      if (due.length === 0) continue;
+
+      const state = await getGameState(gameId);
+      if (!state || state.status === 'finished') {
+        runner.games.delete(gameId);
+        continue;
+      }
+      if (state.status !== 'kickoff' && state.status !== 'playing') continue;
+
+      const actions: GameAction[] = [];
+      for (const botId of due) {
+        const bot = [...state.teamA, ...state.teamB].find(p => p.id === botId);
+        if (!bot?.bot) {
+          bots.delete(botId); // sent off
+          continue;
+        }
+
+        // Jitter keeps a team's bots from all acting on the same tick
+        bots.set(botId, now + GAME_CONFIG.BOT_THINK_INTERVAL[bot.bot] * (0.75 + Math.random() * 0.5));
+
+        const perception = generatePerception(state, botId);
+        const action = perception && decideBotAction(perception, bot.bot);
+        if (action) actions.push(action);
+      }
+
+      // Queued actions can wait on the same loop tick; direct ones would
+      // only race each other for the game's version
+      if (isGameLoopEnabled()) {
+        await Promise.all(actions.map(action => performAction(gameId, action)));
+      } else {
+        for (const action of actions) {
+          await performAction(gameId, action);
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Bot runner tick failed:", error);
+  } finally {
+    runner.ticking = false;
+  }
+}
+
+/**
+ * Track games in play that have bots, and fill lobbies that have waited
+ * longer than their botFillTimeout
+ */
+async function refreshGames(now: number) {
+  const store = getGameStore();
+
+  const waiting = await store.list(['waiting'], 500);
+  for (const game of waiting) {
+    const timeout = game.config.botFillTimeout ?? 0;
+    if (timeout <= 0 || game.tournament || now - game.createdAt < timeout) continue;
+
+    const result = await addBots(game.gameId, game.config.botDifficulty ?? 'medium');
+    if (result.success) {
+      console.log(`Game ${game.gameId}: lobby timed out, ${result.message?.toLowerCase()}`);
+    }
+  }
+
+  const active = await store.list(['countdown', 'kickoff', 'playing'], 500);
+  for (const game of active) {
+    const botIds = [...game.teamA, ...game.teamB].filter(p => p.bot).map(p => p.id);
+    if (botIds.length === 0 || runner.games.has(game.gameId)) continue;
+    runner.games.set(game.gameId, new Map(botIds.map(id => [id, now])));
+  }
+}
@@ -0,0 +1,119 @@
+import { GAME_CONFIG } from "@/types/game";
+import type { BotDifficulty, GameAction, PerceptionData, Player } from "@/types/game";
+import { getGameStore } from "./gameStore";
+import { joinGame } from "./gameLogic";
+
+/**
+ * Built-in bot players.
+ *
+ * Bots are ordinary players with `bot` set to their difficulty. They join
+ * through joinGame, are driven by the bot runner (lib/botRunner.ts) and play
+ * through the same action functions as agents (performAction in
+ * lib/actionRequests.ts). Each decision follows the perception's
+ * recommendation; difficulty changes how often a bot thinks, how often it
+ * hesitates, how fast it runs and shoots, and whether it picks the best pass
+ * target.
+ */
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
+
+const DIFFICULTY_NAMES: Record<BotDifficulty, string> = {
+  easy: 'Rookie',
+  medium: 'Pro',
+  hard: 'Ace',
+};
+
+/**
+ * Fill the empty slots of a waiting game with bots (or add `count` of them)
+ */
+export async function addBots(
+  gameId: string,
+  difficulty: BotDifficulty,
+  count?: number
+): Promise<{ success: boolean; bots?: Player[]; message?: string }> {
+  const game = await getGameStore().load(gameId);
+  if (!game) {
+    return { success: false, message: "Game not found" };
+  }
+  if (game.tournament) {
+    return { success: false, message: "Bots can't play in tournament games" };
+  }
+  if (game.status !== 'waiting') {
+    return { success: false, message: "Game already started" };
+  }
+
+  const open = game.config.playersPerTeam * 2 - game.teamA.length - game.teamB.length;
+  const wanted = Math.min(open, count ?? open);
+  if (wanted <= 0) {
+    return { success: false, message: "Game is full" };
+  }
+
+  const existing = [...game.teamA, ...game.teamB].filter(p => p.bot).length;
+  const botIds: string[] = [];
+
+  for (let i = 0; i < wanted; i++) {
+    const name = `${DIFFICULTY_NAMES[difficulty]} Bot ${existing + i + 1}`;
+    // No team preference: joinGame keeps the sides level
+    const joined = await joinGame(gameId, name, undefined, undefined, undefined, undefined, difficulty);
+    if (!joined.success) {
+      // Someone else took the last slot, or the game just started
+      if (botIds.length === 0) return { success: false, message: joined.message };
+      break;
+    }
+    botIds.push(joined.playerId!);
+  }
+
+  const latest = await getGameStore().load(gameId);
+  const added = [...(latest?.teamA ?? []), ...(latest?.teamB ?? [])].filter(p => botIds.includes(p.id));
+
+  return { success: true, bots: added, message: `Added ${added.length} ${difficulty} bot${added.length === 1 ? '' : 's'}` };
+}
+
+/**
+ * Turn a bot's perception into an action, or null to do nothing this time
+ */
+export function decideBotAction(
+  perception: PerceptionData,
+  difficulty: BotDifficulty,
+  random: () => number = Math.random
+): GameAction | null {
+  const playerId = perception.yourPlayer.id;
+  const recommendation = perception.recommendations;
+
+  if (random() < GAME_CONFIG.BOT_MISTAKE_RATE[difficulty]) return null;
+
+  switch (recommendation.action) {
+    case 'shoot':
+      return { type: 'shoot', playerId, speed: GAME_CONFIG.BOT_SHOOT_SPEED[difficulty] };
+
+    case 'pass': {
+      const targets = recommendation.passTargets ?? [];
+      if (targets.length === 0) return null;
+      // Only the better bots reliably spot the best option
+      const target = difficulty === 'easy' ? targets[Math.floor(random() * targets.length)] : targets[0];
+      return { type: 'pass', playerId, targetPlayerId: target.playerId };
+    }
+
+    case 'tackle': {
+      const carrier = perception.opponents.find(opponent => opponent.hasBall);
+      return carrier ? { type: 'tackle', playerId, targetPlayerId: carrier.id } : null;
+    }
+
+    case 'save':
+      return { type: 'save', playerId };
+
+    case 'move': {
+      const target = recommendation.moveTarget ?? perception.ball.position;
+      return {
+        type: 'move',
+        playerId,
+        targetX: Math.max(0, Math.min(GAME_CONFIG.FIELD_WIDTH, target.x)),
+        targetY: Math.max(0, Math.min(GAME_CONFIG.FIELD_HEIGHT, target.y)),
+        speed: GAME_CONFIG.BOT_MOVE_SPEED[difficulty],
+      };
+    }
+
+    case 'wait':
+      return null;
+  }
+}
@@ -0,0 +1,1243 @@
+import { GAME_CONFIG, GameState, GameAction, GameEvent, ActionResult, Ball, CardType, Player, Position, TeamId, PlayerRole, RestartType, RESTART_NAMES } from "@/types/game";
+import { nextRandom } from "./rng";
+import { getFormationSlots } from "./formations";
+
+/**
+ * Simulation engine: physics and rules as pure functions over GameState.
+ *
+ * Nothing in here touches storage, the clock or Math.random - time comes in
+ * as an argument and randomness from the game's seeded `rngState`. Inputs are
+ * never mutated; every function returns the next state. Given the same
+ * starting state and action log, `replay` reproduces a match exactly.
+ *
+ * Alongside the next state, `advance` and `applyAction` return the events
+ * (kickoffs, possession changes, goals, tackles...) that produced it, for
+ * the match event log.
+ */
+
+export interface ActionLogEntry {
+  at: number;
+  action: GameAction;
+}
+
+/**
+ * Tick number of a moment in the game: SIMULATION_STEPs since createdAt.
+ * lastUpdate only ever moves by whole steps from createdAt, so every
+ * simulated step lands exactly on a tick.
+ */
+export function tickAt(state: GameState, at: number): number {
+  return Math.floor((at - state.createdAt) / GAME_CONFIG.SIMULATION_STEP);
+}
+
+export function tickTime(state: GameState, tick: number): number {
+  return state.createdAt + tick * GAME_CONFIG.SIMULATION_STEP;
+}
+
+/**
+ * Spot for a player based on role and team (team A on the left), for players
+ * without a formation slot. `teamSize` is the player's index in their team.
+ */
+export function getInitialPosition(role: PlayerRole, team: TeamId, teamSize: number): Position {
+  const centerY = GAME_CONFIG.FIELD_HEIGHT / 2;
+  const isTeamA = team === 'A';
+
+  switch (role) {
+    case 'goalkeeper':
+      return {
+        x: isTeamA ? 50 : GAME_CONFIG.FIELD_WIDTH - 50,
+        y: centerY,
+      };
+    case 'defender':
+      return {
+        x: isTeamA ? 200 : GAME_CONFIG.FIELD_WIDTH - 200,
+        y: centerY + (teamSize % 2 === 0 ? -100 : 100),
+      };
+    case 'midfielder':
+      return {
+        x: GAME_CONFIG.FIELD_WIDTH / 2 + (isTeamA ? -100 : 100),
+        y: centerY + (teamSize % 3 === 0 ? -150 : teamSize % 3 === 1 ? 0 : 150),
+      };
+    case 'striker':
+      return {
+        x: isTeamA ? GAME_CONFIG.FIELD_WIDTH - 300 : 300,
+        y: centerY,
+      };
+  }
+}
+
+/**
+ * Where a player lines up on the current ends: their formation slot, or the
+ * per-role spot of getInitialPosition for players without one. `index` is
+ * the player's index in their team.
+ */
+export function homePosition(state: Pick<GameState, 'formations' | 'sidesSwapped'>, player: Player, index: number): Position {
+  const slot = player.slot !== undefined ? getFormationSlots(state.formations?.[player.team])?.[player.slot] : undefined;
+  const home = slot
+    ? { x: player.team === 'A' ? slot.position.x : GAME_CONFIG.FIELD_WIDTH - slot.position.x, y: slot.position.y }
+    : getInitialPosition(player.role, player.team, index);
+
+  return state.sidesSwapped ? { x: GAME_CONFIG.FIELD_WIDTH - home.x, y: home.y } : home;
+}
+
+// Helper: Calculate distance between two points
+export function distance(p1: Position, p2: Position): number {
+  return Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2);
+}
+
+// Helper: Normalize vector
+function normalize(vx: number, vy: number): { vx: number; vy: number } {
+  const mag = Math.sqrt(vx * vx + vy * vy);
+  if (mag === 0) return { vx: 0, vy: 0 };
+  return { vx: vx / mag, vy: vy / mag };
+}
+
+/**
+ * TECHNICAL IMPROVEMENT #2: Fixed timestep simulation
+ * Ensures consistent physics regardless of frame rate
+ *
+ * Runs every SIMULATION_STEP that has elapsed since lastUpdate, so ball and
+ * player speed no longer depend on how often the state is polled. Leftover
+ * time below one step stays in the accumulator (lastUpdate is only advanced
+ * by whole steps) and is picked up by the next call.
+ *
+ * At most `maxSteps` are run per call to bound the work for a game nobody
+ * looked at for a while. The rest of the backlog stays in the accumulator
+ * rather than being dropped, so the outcome never depends on when callers
+ * happened to poll.
+ */
+export function advance(
+  state: GameState,
+  now: number,
+  maxSteps: number = GAME_CONFIG.MAX_CATCHUP_STEPS
+): { state: GameState; changed: boolean; events: GameEvent[] } {
+  if (now - state.lastUpdate < GAME_CONFIG.SIMULATION_STEP) {
+    return { state, changed: false, events: [] };
+  }
+
+  const next = structuredClone(state);
+  const steps = Math.min(Math.floor((now - next.lastUpdate) / GAME_CONFIG.SIMULATION_STEP), maxSteps);
+  const events: GameEvent[] = [];
+  let stateChanged = false;
+
+  for (let i = 0; i < steps; i++) {
+    const stepTime = next.lastUpdate + GAME_CONFIG.SIMULATION_STEP;
+    if (simulateStep(next, stepTime, events)) {
+      stateChanged = true;
+    }
+    next.lastUpdate = stepTime;
+
+    // Nothing left to simulate once the match is over
+    if (next.status === "finished") {
+      next.lastUpdate = now;
+      break;
+    }
+  }
+
+  if (stateChanged) {
+    next.version++;
+  }
+
+  return { state: next, changed: stateChanged, events };
+}
+
+/**
+ * Advance the game by exactly one SIMULATION_STEP ending at `now`
+ */
+function simulateStep(state: GameState, now: number, events: GameEvent[]): boolean {
+  let stateChanged = false;
+  const tick = tickAt(state, now);
+
+  // Handle countdown
+  if (state.status === "countdown" && state.countdownStartTime) {
+    const elapsed = now - state.countdownStartTime;
+    if (elapsed >= GAME_CONFIG.COUNTDOWN_DURATION) {
+      state.startedAt = now;
+      state.countdownStartTime = undefined;
+      startKickoff(state, 'A', now, events);
+      stateChanged = true;
+    }
+  }
+
+  // Nobody kicked off in time - let play go on with the kicker on the ball
+  if (state.status === "kickoff" && state.kickoffStartTime !== undefined &&
+      now - state.kickoffStartTime >= GAME_CONFIG.KICKOFF_TIMEOUT) {
+    endKickoff(state);
+    stateChanged = true;
+  }
+
+  // Same for a throw-in, goal kick or corner
+  if (state.restart && now - state.restart.awardedAt >= GAME_CONFIG.RESTART_TIMEOUT) {
+    state.restart = undefined;
+    stateChanged = true;
+  }
+
+  if (state.status === "playing" || state.status === "kickoff") {
+    state.matchTime += GAME_CONFIG.SIMULATION_STEP;
+    stateChanged = true;
+
+    // Move players towards their target positions
+    const allPlayers = [...state.teamA, ...state.teamB];
+    for (const player of allPlayers) {
+      if (player.targetPosition) {
+        const dx = player.targetPosition.x - player.position.x;
+        const dy = player.targetPosition.y - player.position.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+
+        if (dist > 0.5) {
+          // Move towards target at constant speed (use player's custom speed if set)
+          const playerSpeed = player.speed || GAME_CONFIG.PLAYER_SPEED;
+          const moveAmount = Math.min(playerSpeed, dist);
+          const from = { ...player.position };
+          player.position.x += (dx / dist) * moveAmount;
+          player.position.y += (dy / dist) * moveAmount;
+
+          // Keep player in bounds
+          player.position.x = Math.max(GAME_CONFIG.PLAYER_RADIUS, Math.min(GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.PLAYER_RADIUS, player.position.x));
+          player.position.y = Math.max(GAME_CONFIG.PLAYER_RADIUS, Math.min(GAME_CONFIG.FIELD_HEIGHT - GAME_CONFIG.PLAYER_RADIUS, player.position.y));
+          if (state.status === "kickoff") {
+            player.position = clampToOwnHalf(state, player.team, player.position);
+          }
+          player.stats.distanceCovered += distance(from, player.position);
+
+          // If player has ball, ball moves with them
+          if (player.hasBall && state.ball.possessionPlayerId === player.id) {
+            state.ball.position = { ...player.position };
+          }
+
+          stateChanged = true;
+        } else {
+          // Reached target - clear it
+          player.targetPosition = undefined;
+          stateChanged = true;
+        }
+      }
+    }
+
+    const possessor = allPlayers.find(p => p.id === state.ball.possessionPlayerId);
+    if (possessor) {
+      possessor.stats.possessionTime += GAME_CONFIG.SIMULATION_STEP;
+    }
+
+    // Update ball physics
+    if (!state.ball.possessionPlayerId) {
+      // Ball is free - apply velocity and friction
+      state.ball.position.x += state.ball.velocity.vx;
+      state.ball.position.y += state.ball.velocity.vy;
+      state.ball.velocity.vx *= GAME_CONFIG.BALL_FRICTION;
+      state.ball.velocity.vy *= GAME_CONFIG.BALL_FRICTION;
+
+      // Stop ball if velocity is very low
+      if (Math.abs(state.ball.velocity.vx) < 0.1 && Math.abs(state.ball.velocity.vy) < 0.1) {
+        state.ball.velocity.vx = 0;
+        state.ball.velocity.vy = 0;
+      }
+
+      // Check for goal - who scores depends on which end each team is attacking
+      const goalY = GAME_CONFIG.FIELD_HEIGHT / 2;
+      const goalHalfWidth = GAME_CONFIG.GOAL_WIDTH / 2;
+      const inGoalMouth = state.ball.position.y >= goalY - goalHalfWidth &&
+                          state.ball.position.y <= goalY + goalHalfWidth;
+
+      // Left goal (x = 0)
+      if (inGoalMouth && state.ball.position.x <= GAME_CONFIG.BALL_RADIUS) {
+        scoreGoal(state, attackingGoalX(state, 'A') === 0 ? 'A' : 'B', now, events);
+        stateChanged = true;
+      }
+
+      // Right goal (x = FIELD_WIDTH)
+      if (inGoalMouth && state.ball.position.x >= GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.BALL_RADIUS) {
+        scoreGoal(state, attackingGoalX(state, 'A') === 0 ? 'B' : 'A', now, events);
+        stateChanged = true;
+      }
+
+      // Anywhere else over a boundary the ball is out of play
+      if (!state.ball.possessionPlayerId && isOutOfPlay(state.ball.position)) {
+        awardRestart(state, now, events);
+        stateChanged = true;
+      }
+
+      // Check for possession claim
+      // Only claim possession if:
+      // 1. Ball velocity is very low (nearly stopped), OR
+      // 2. Ball is being claimed by a different player (interception)
+      const ballSpeed = Math.sqrt(state.ball.velocity.vx ** 2 + state.ball.velocity.vy ** 2);
+      const ballNearlyStoppedThreshold = 0.5; // Ball considered "stopped" below this speed
+
+      // A goal or restart this step has already given the ball to someone (or ended the match)
+      const allPlayers = state.status === "playing" && !state.ball.possessionPlayerId
+        ? [...state.teamA, ...state.teamB]
+        : [];
+      for (const player of allPlayers) {
+        const dist = distance(player.position, state.ball.position);
+
+        // Can claim possession if:
+        // - Ball is close enough, AND
+        // - Either ball has nearly stopped OR this is a different player (interception)
+        const inReach = dist <= claimDistance(state, player, ballSpeed) &&
+                        (ballSpeed <= ballNearlyStoppedThreshold ||
+                         player.id !== state.ball.lastTouchPlayerId);
+        if (!inReach) continue;
+
+        // A shot reaching the keeper in their box is a save attempt, decided once
+        if (mustSave(state, player, ballSpeed)) {
+          if (state.ball.inFlight!.beaten?.includes(player.id)) continue;
+
+          const chance = saveProbability(player.position, state.ball);
+          const saved = random(state) < chance;
+          events.push({ tick, at: now, type: 'save', playerId: player.id, success: saved, chance });
+          stateChanged = true;
+          if (!saved) {
+            state.ball.inFlight!.beaten = [...(state.ball.inFlight!.beaten ?? []), player.id];
+            continue;
+          }
+        }
+
+        trackPossession(state, player);
+        state.ball.possessionPlayerId = player.id;
+        state.ball.lastTouchPlayerId = player.id;
+        state.ball.velocity = { vx: 0, vy: 0 };
+        player.hasBall = true;
+        events.push({ tick, at: now, type: 'possession', playerId: player.id, team: player.team });
+        stateChanged = true;
+        break;
+      }
+    } else {
+      // Ball is possessed - move with player
+      if (possessor) {
+        state.ball.position = { ...possessor.position };
+      }
+    }
+
+    checkClock(state, now, events);
+  }
+
+  return stateChanged;
+}
+
+/**
+ * x of the goal `team` is attacking. Team A starts out attacking the
+ * right-hand goal; the ends swap at half-time.
+ */
+export function attackingGoalX(state: Pick<GameState, 'sidesSwapped'>, team: TeamId): number {
+  const attacksRight = (team === 'A') !== Boolean(state.sidesSwapped);
+  return attacksRight ? GAME_CONFIG.FIELD_WIDTH : 0;
+}
+
+export function defendingGoalX(state: Pick<GameState, 'sidesSwapped'>, team: TeamId): number {
+  return GAME_CONFIG.FIELD_WIDTH - attackingGoalX(state, team);
+}
+
+/**
+ * Whether a position is inside the penalty area in front of the goal `team`
+ * defends
+ */
+export function inPenaltyArea(state: Pick<GameState, 'sidesSwapped'>, team: TeamId, position: Position): boolean {
+  const goalX = defendingGoalX(state, team);
+  const depth = Math.abs(position.x - goalX);
+  const offset = Math.abs(position.y - GAME_CONFIG.FIELD_HEIGHT / 2);
+  return depth <= GAME_CONFIG.PENALTY_AREA_DEPTH && offset <= GAME_CONFIG.PENALTY_AREA_WIDTH / 2;
+}
+
+// A shot still travelling at shot pace doesn't simply stop at a keeper in
+// their box: saveProbability decides it, as for the `save` action. Outside
+// the box the keeper can't handle it and blocks it like anyone else.
+function mustSave(state: GameState, player: Player, ballSpeed: number): boolean {
+  const { inFlight } = state.ball;
+  return player.role === 'goalkeeper' &&
+    inFlight?.kind === 'shot' &&
+    inFlight.team !== player.team &&
+    ballSpeed >= GAME_CONFIG.MIN_SHOOT_SPEED &&
+    inPenaltyArea(state, player.team, player.position);
+}
+
+// Keepers gather anything short of a shot from further away inside their own box
+function claimDistance(state: GameState, player: Player, ballSpeed: number): number {
+  if (player.role === 'goalkeeper' && ballSpeed < GAME_CONFIG.MIN_SHOOT_SPEED && inPenaltyArea(state, player.team, player.position)) {
+    return GAME_CONFIG.GOALKEEPER_CLAIM_DISTANCE;
+  }
+  return GAME_CONFIG.POSSESSION_DISTANCE;
+}
+
+/**
+ * Chance of a keeper at `keeper` catching the ball: harder the faster it is
+ * travelling and the wider of the keeper it is heading
+ */
+export function saveProbability(keeper: Position, ball: Pick<Ball, 'position' | 'velocity'>): number {
+  const speed = Math.sqrt(ball.velocity.vx ** 2 + ball.velocity.vy ** 2);
+  const speedFactor = Math.max(0, Math.min(1,
+    (speed - GAME_CONFIG.MIN_SHOOT_SPEED) / (GAME_CONFIG.MAX_SHOOT_SPEED - GAME_CONFIG.MIN_SHOOT_SPEED)
+  ));
+
+  // Angle between the ball's direction and the line from the ball to the keeper
+  let angleFactor = 0;
+  const toKeeper = { x: keeper.x - ball.position.x, y: keeper.y - ball.position.y };
+  const toKeeperDist = Math.sqrt(toKeeper.x ** 2 + toKeeper.y ** 2);
+  if (speed > 0 && toKeeperDist > 0) {
+    const cos = (ball.velocity.vx * toKeeper.x + ball.velocity.vy * toKeeper.y) / (speed * toKeeperDist);
+    const angle = Math.acos(Math.max(-1, Math.min(1, cos)));
+    angleFactor = Math.min(1, angle / (Math.PI / 2));
+  }
+
+  return GAME_CONFIG.SAVE_BASE_RATE *
+    (1 - GAME_CONFIG.SAVE_SPEED_PENALTY * speedFactor) *
+    (1 - GAME_CONFIG.SAVE_ANGLE_PENALTY * angleFactor);
+}
+
+/**
+ * Whether `player` is in an offside position right now: in the opponents'
+ * half and nearer their goal line than both the ball and the second-last
+ * opponent
+ */
+export function isOffside(state: Pick<GameState, 'sidesSwapped' | 'teamA' | 'teamB' | 'ball'>, player: Player): boolean {
+  const goalX = attackingGoalX(state, player.team);
+  const depth = (position: Position) => Math.abs(position.x - goalX);
+  const playerDepth = depth(player.position);
+
+  if (playerDepth >= GAME_CONFIG.FIELD_WIDTH / 2) return false;
+  if (playerDepth >= depth(state.ball.position)) return false;
+
+  const opponents = (player.team === 'A' ? state.teamB : state.teamA)
+    .map(p => depth(p.position))
+    .sort((a, b) => a - b);
+  const secondLast = opponents[1] ?? 0; // fewer than two opponents - only the goal line counts
+
+  return playerDepth < secondLast;
+}
+
+function scoreGoal(state: GameState, team: TeamId, now: number, events: GameEvent[]) {
+  const tick = tickAt(state, now);
+
+  if (team === 'A') {
+    state.score.teamA++;
+  } else {
+    state.score.teamB++;
+  }
+
+  const players = team === 'A' ? state.teamA : state.teamB;
+  const scorer = players.find(p => p.id === state.ball.lastTouchPlayerId);
+  const { inFlight, lastPass } = state.ball;
+  if (inFlight?.kind === 'shot' && inFlight.team === team) {
+    const shooter = players.find(p => p.id === inFlight.playerId);
+    if (shooter) shooter.stats.shotsOnTarget++;
+  }
+
+  // The last teammate to complete a pass to the scorer's team gets the assist
+  const assister = scorer && lastPass?.team === team && lastPass.playerId !== scorer.id
+    ? players.find(p => p.id === lastPass.playerId)
+    : undefined;
+  if (scorer) {
+    scorer.stats.goals++;
+  }
+  if (assister) {
+    assister.stats.assists++;
+  }
+  resetBall(state);
+  events.push({ tick, at: now, type: 'goal', team, scorerId: scorer?.id, assistId: assister?.id, score: { ...state.score } });
+
+  // Past full time we're only still playing for a golden goal - this is it
+  const goals = team === 'A' ? state.score.teamA : state.score.teamB;
+  if (goals >= state.config.goalsToWin || isPastFullTime(state)) {
+    finishMatch(state, now, events);
+  } else {
+    // The team that conceded kicks off
+    startKickoff(state, team === 'A' ? 'B' : 'A', now, events);
+  }
+}
+
+function isPastFullTime(state: GameState): boolean {
+  return state.config.matchDuration > 0 && state.matchTime >= state.config.matchDuration;
+}
+
+/**
+ * Half-time and full-time on the match clock
+ */
+function checkClock(state: GameState, now: number, events: GameEvent[]) {
+  const { matchDuration, halves, tiebreak } = state.config;
+  if (!matchDuration || (state.status !== "playing" && state.status !== "kickoff")) return;
+
+  if (halves === 2 && state.half === 1 && state.matchTime >= matchDuration / 2) {
+    switchSides(state, now, events);
+    return;
+  }
+
+  if (!isPastFullTime(state)) return;
+
+  if (state.score.teamA === state.score.teamB && tiebreak === 'goldenGoal') {
+    // Announce it once, on the first step past full time
+    if (state.matchTime - GAME_CONFIG.SIMULATION_STEP < matchDuration) {
+      events.push({ tick: tickAt(state, now), at: now, type: 'goldenGoal', score: { ...state.score } });
+    }
+    return;
+  }
+
+  finishMatch(state, now, events);
+}
+
+function switchSides(state: GameState, now: number, events: GameEvent[]) {
+  const tick = tickAt(state, now);
+
+  state.half = 2;
+  state.sidesSwapped = !state.sidesSwapped;
+  events.push({ tick, at: now, type: 'halftime', score: { ...state.score } });
+
+  // Team A kicked off the first half
+  startKickoff(state, 'B', now, events);
+}
+
+/**
+ * Line both teams up for a kickoff: everyone back to their formation spot
+ * inside their own half, ball on the centre spot at the feet of `team`'s
+ * kicker. Play stays in `kickoff` until the kicker passes or shoots.
+ */
+function startKickoff(state: GameState, team: TeamId, now: number, events: GameEvent[]) {
+  resetBall(state);
+
+  for (const side of ['A', 'B'] as TeamId[]) {
+    const players = side === 'A' ? state.teamA : state.teamB;
+    players.forEach((player, index) => {
+      const home = homePosition(state, player, index);
+      // The defending side also starts outside the centre circle
+      const margin = side === team ? 0 : GAME_CONFIG.CENTRE_CIRCLE_RADIUS;
+      player.position = clampToOwnHalf(state, side, home, margin);
+      player.targetPosition = undefined;
+    });
+  }
+
+  const kicker = pickKicker(team === 'A' ? state.teamA : state.teamB);
+  if (kicker) {
+    kicker.position = { x: GAME_CONFIG.FIELD_WIDTH / 2, y: GAME_CONFIG.FIELD_HEIGHT / 2 };
+    kicker.hasBall = true;
+    trackPossession(state, kicker);
+    state.ball.possessionPlayerId = kicker.id;
+    state.ball.lastTouchPlayerId = kicker.id;
+  }
+
+  state.status = "kickoff";
+  state.kickoffTeam = team;
+  state.kickoffStartTime = now;
+  events.push({ tick: tickAt(state, now), at: now, type: 'kickoff', team });
+}
+
+// The most attacking outfield player takes the kick
+function pickKicker(players: Player[]): Player | undefined {
+  const order: PlayerRole[] = ['striker', 'midfielder', 'defender', 'goalkeeper'];
+  for (const role of order) {
+    const player = players.find(p => p.role === role);
+    if (player) return player;
+  }
+  return undefined;
+}
+
+function endKickoff(state: GameState) {
+  state.status = "playing";
+  state.kickoffTeam = undefined;
+  state.kickoffStartTime = undefined;
+}
+
+// Halfway line included - the kicker stands on it
+function clampToOwnHalf(state: GameState, team: TeamId, position: Position, margin = 0): Position {
+  const halfway = GAME_CONFIG.FIELD_WIDTH / 2;
+  const x = defendingGoalX(state, team) === 0
+    ? Math.min(position.x, halfway - margin)
+    : Math.max(position.x, halfway + margin);
+  return { x, y: position.y };
+}
+
+function finishMatch(state: GameState, now: number, events: GameEvent[]) {
+  const { teamA, teamB } = state.score;
+
+  state.status = "finished";
+  state.winner = teamA > teamB ? 'A' : teamB > teamA ? 'B' : undefined;
+  state.finishedAt = now;
+  events.push({ tick: tickAt(state, now), at: now, type: 'finish', winner: state.winner, score: { ...state.score } });
+}
+
+function isOutOfPlay(position: Position): boolean {
+  return position.x <= GAME_CONFIG.BALL_RADIUS ||
+    position.x >= GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.BALL_RADIUS ||
+    position.y <= GAME_CONFIG.BALL_RADIUS ||
+    position.y >= GAME_CONFIG.FIELD_HEIGHT - GAME_CONFIG.BALL_RADIUS;
+}
+
+/**
+ * The ball went out outside the goal mouth. Pick the restart from who
+ * touched it last, put the ball on the spot and give it to the nearest
+ * player of the team taking it (the goalkeeper for goal kicks).
+ */
+function awardRestart(state: GameState, now: number, events: GameEvent[]) {
+  const { x, y } = state.ball.position;
+  const allPlayers = [...state.teamA, ...state.teamB];
+  const lastTouch = allPlayers.find(p => p.id === state.ball.lastTouchPlayerId);
+  const other = (team: TeamId): TeamId => team === 'A' ? 'B' : 'A';
+  const edge = GAME_CONFIG.PLAYER_RADIUS; // players (and the ball at their feet) stay this far inside
+
+  let type: RestartType;
+  let team: TeamId;
+  let spot: Position;
+
+  if (x <= GAME_CONFIG.BALL_RADIUS || x >= GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.BALL_RADIUS) {
+    // Over a goal line: corner if the defenders put it out, goal kick otherwise
+    const goalX = x <= GAME_CONFIG.BALL_RADIUS ? 0 : GAME_CONFIG.FIELD_WIDTH;
+    const defending: TeamId = defendingGoalX(state, 'A') === goalX ? 'A' : 'B';
+
+    if (lastTouch?.team === defending) {
+      type = 'corner';
+      team = other(defending);
+      spot = {
+        x: goalX === 0 ? edge : GAME_CONFIG.FIELD_WIDTH - edge,
+        y: y < GAME_CONFIG.FIELD_HEIGHT / 2 ? edge : GAME_CONFIG.FIELD_HEIGHT - edge,
+      };
+    } else {
+      type = 'goalKick';
+      team = defending;
+      spot = {
+        x: goalX === 0 ? GAME_CONFIG.GOAL_KICK_DISTANCE : GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.GOAL_KICK_DISTANCE,
+        y: GAME_CONFIG.FIELD_HEIGHT / 2,
+      };
+    }
+  } else {
+    // Over a touchline: throw-in against whoever touched it last
+    // (nobody has - the team defending that half gets it)
+    type = 'throwIn';
+    team = lastTouch
+      ? other(lastTouch.team)
+      : defendingGoalX(state, 'A') === (x < GAME_CONFIG.FIELD_WIDTH / 2 ? 0 : GAME_CONFIG.FIELD_WIDTH) ? 'A' : 'B';
+    spot = {
+      x: Math.max(edge, Math.min(GAME_CONFIG.FIELD_WIDTH - edge, x)),
+      y: y <= GAME_CONFIG.BALL_RADIUS ? edge : GAME_CONFIG.FIELD_HEIGHT - edge,
+    };
+  }
+
+  const players = team === 'A' ? state.teamA : state.teamB;
+  const keeper = type === 'goalKick' ? players.find(p => p.role === 'goalkeeper') : undefined;
+  const taker = keeper ?? [...players].sort((a, b) => distance(a.position, spot) - distance(b.position, spot))[0];
+
+  setRestart(state, type, team, spot, taker, now);
+  events.push({ tick: tickAt(state, now), at: now, type: 'outOfPlay', restart: type, team, takerId: taker?.id, position: { ...spot } });
+}
+
+/**
+ * Book-keeping when `player` picks up the ball: settle the pass or shot it
+ * came from and drop an assist chain the other team has broken
+ */
+function trackPossession(state: GameState, player: Player) {
+  const { inFlight, lastPass } = state.ball;
+  const from = inFlight && [...state.teamA, ...state.teamB].find(p => p.id === inFlight.playerId);
+
+  if (inFlight?.kind === 'pass') {
+    if (player.team === inFlight.team && player.id !== inFlight.playerId) {
+      if (from) from.stats.passesCompleted++;
+      state.ball.lastPass = { playerId: inFlight.playerId, team: inFlight.team };
+    } else if (player.team !== inFlight.team) {
+      player.stats.interceptions++;
+    }
+  } else if (inFlight?.kind === 'shot' && player.team !== inFlight.team && player.role === 'goalkeeper') {
+    // Stopped by the keeper - on target, and a save
+    if (from) from.stats.shotsOnTarget++;
+    player.stats.saves++;
+  }
+
+  state.ball.inFlight = undefined;
+  if (lastPass && lastPass.team !== player.team) {
+    state.ball.lastPass = undefined;
+  }
+}
+
+// Put the ball on the spot at the taker's feet and hold play until it's taken
+function setRestart(state: GameState, type: RestartType, team: TeamId, spot: Position, taker: Player | undefined, now: number) {
+  // Whatever pass or shot put the ball out didn't find its man
+  state.ball.inFlight = undefined;
+  [...state.teamA, ...state.teamB].forEach(p => p.hasBall = false);
+  state.ball.position = { ...spot };
+  state.ball.velocity = { vx: 0, vy: 0 };
+  state.ball.possessionPlayerId = undefined;
+
+  if (taker) {
+    taker.position = { ...spot };
+    taker.targetPosition = undefined;
+    taker.hasBall = true;
+    trackPossession(state, taker);
+    state.ball.possessionPlayerId = taker.id;
+    state.ball.lastTouchPlayerId = taker.id;
+  }
+
+  state.restart = { type, team, takerId: taker?.id, position: { ...spot }, awardedAt: now };
+}
+
+function resetBall(state: GameState) {
+  state.ball.position = {
+    x: GAME_CONFIG.FIELD_WIDTH / 2,
+    y: GAME_CONFIG.FIELD_HEIGHT / 2,
+  };
+  state.ball.velocity = { vx: 0, vy: 0 };
+  state.ball.possessionPlayerId = undefined;
+  state.ball.inFlight = undefined;
+  state.ball.lastPass = undefined;
+  state.restart = undefined;
+
+  // Clear all players' ball possession
+  [...state.teamA, ...state.teamB].forEach(p => p.hasBall = false);
+}
+
+/**
+ * Apply a single action at time `at`.
+ *
+ * The game is first simulated up to `at`, within the usual
+ * MAX_CATCHUP_STEPS. If that cap stops it short - a game nobody touched for
+ * a while - the action happens where the simulation stopped and is logged
+ * at that time, so replaying the log still gives the same match. On success
+ * the returned state carries a new version; on failure the input state is
+ * returned untouched and no events are reported.
+ */
+export function applyAction(
+  state: GameState,
+  action: GameAction,
+  at: number
+): { state: GameState; result: ActionResult; events: GameEvent[] } {
+  const caughtUp = advance(state, at);
+  const next = structuredClone(caughtUp.state);
+  const actionAt = at - next.lastUpdate >= GAME_CONFIG.SIMULATION_STEP ? next.lastUpdate : at;
+  const actionEvents: GameEvent[] = [];
+  const result = applyActionInPlace(next, action, actionAt, actionEvents);
+  if (!result.success) {
+    return { state, result, events: [] };
+  }
+
+  next.version++;
+  const events: GameEvent[] = [
+    ...caughtUp.events,
+    { tick: tickAt(next, actionAt), at: actionAt, type: 'action', action },
+    ...actionEvents,
+  ];
+  return { state: next, result, events };
+}
+
+/**
+ * Apply several actions at the same time `at`, in order, as one update.
+ * Each action sees the effects of the ones before it; one that fails leaves
+ * the state as it was and the rest still apply.
+ */
+export function applyActions(
+  state: GameState,
+  actions: GameAction[],
+  at: number
+): { state: GameState; results: ActionResult[]; events: GameEvent[] } {
+  let current = state;
+  const results: ActionResult[] = [];
+  const events: GameEvent[] = [];
+
+  for (const action of actions) {
+    const applied = applyAction(current, action, at);
+    current = applied.state;
+    results.push(applied.result);
+    events.push(...applied.events);
+  }
+
+  return { state: current, results, events };
+}
+
+function applyActionInPlace(game: GameState, action: GameAction, now: number, events: GameEvent[]): ActionResult {
+  if (game.status !== 'playing' && game.status !== 'kickoff') return { success: false, message: "Game not in progress" };
+  if (game.sentOff?.some(p => p.id === action.playerId)) return { success: false, message: "You have been sent off" };
+
+  switch (action.type) {
+    case 'move':
+      // Throw-ins, goal kicks and corners are taken from the spot
+      if (game.restart?.takerId === action.playerId) {
+        return { success: false, message: `Take the ${RESTART_NAMES[game.restart.type]} first` };
+      }
+      return applyMove(game, action.playerId, action.targetX, action.targetY, action.speed, now);
+    case 'pass':
+      return playsBall(game, applyPass(game, action.playerId, action.targetPlayerId, action.speed, now, events));
+    case 'shoot':
+      if (game.restart?.type === 'throwIn' && game.restart.takerId === action.playerId) {
+        return { success: false, message: "A throw-in must be passed to a teammate" };
+      }
+      if (game.restart?.type === 'indirectFreeKick' && game.restart.takerId === action.playerId) {
+        return { success: false, message: "An indirect free kick must be passed to a teammate" };
+      }
+      return playsBall(game, applyShoot(game, action.playerId, action.speed, now));
+    case 'tackle':
+      if (game.status === 'kickoff') return { success: false, message: "Wait for the kickoff to be taken" };
+      if (game.restart) return { success: false, message: `Wait for the ${RESTART_NAMES[game.restart.type]} to be taken` };
+      return applyTackle(game, action.playerId, action.targetPlayerId, now, events);
+    case 'save':
+      return applySave(game, action.playerId, now, events);
+  }
+}
+
+// A pass or shot out of a kickoff or restart puts the ball back in play
+function playsBall(game: GameState, result: ActionResult): ActionResult {
+  // An offside call has already set up the free kick
+  if (!result.success || result.offside) return result;
+
+  if (game.status === 'kickoff') {
+    endKickoff(game);
+  }
+  game.restart = undefined;
+  return result;
+}
+
+function applyMove(
+  game: GameState,
+  playerId: string,
+  targetX: number,
+  targetY: number,
+  speed: number | undefined,
+  now: number
+): ActionResult {
+  const allPlayers = [...game.teamA, ...game.teamB];
+  const player = allPlayers.find(p => p.id === playerId);
+  if (!player) return { success: false, message: "Player not found" };
+
+  // Check cooldown
+  if (player.lastActionTime && now - player.lastActionTime < GAME_CONFIG.MOVE_COOLDOWN) {
+    return { success: false, message: "Move cooldown active" };
+  }
+
+  // Validate and set custom speed if provided
+  if (speed !== undefined) {
+    if (speed < GAME_CONFIG.MIN_PLAYER_SPEED) {
+      return { success: false, message: `Speed too low. Minimum: ${GAME_CONFIG.MIN_PLAYER_SPEED}` };
+    }
+    if (speed > GAME_CONFIG.MAX_PLAYER_SPEED) {
+      return { success: false, message: `Speed too high. Maximum: ${GAME_CONFIG.MAX_PLAYER_SPEED}` };
+    }
+    player.speed = speed;
+  }
+
+  // Validate target position is within field bounds (and your own half until the kickoff is taken)
+  let clampedX = Math.max(GAME_CONFIG.PLAYER_RADIUS, Math.min(GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.PLAYER_RADIUS, targetX));
+  if (game.status === 'kickoff') {
+    clampedX = clampToOwnHalf(game, player.team, { x: clampedX, y: targetY }).x;
+  }
+  const clampedY = Math.max(GAME_CONFIG.PLAYER_RADIUS, Math.min(GAME_CONFIG.FIELD_HEIGHT - GAME_CONFIG.PLAYER_RADIUS, targetY));
+
+  // Calculate distance to target
+  const dx = clampedX - player.position.x;
+  const dy = clampedY - player.position.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+
+  if (dist < 1) {
+    return { success: false, message: "Already at target position" };
+  }
+
+  // Set the target position - player will move towards it in simulation
+  player.targetPosition = {
+    x: clampedX,
+    y: clampedY
+  };
+
+  player.lastActionTime = now;
+
+  const actualSpeed = player.speed || GAME_CONFIG.PLAYER_SPEED;
+
+  return {
+    success: true,
+    position: {
+      x: player.position.x,
+      y: player.position.y
+    },
+    targetPosition: {
+      x: clampedX,
+      y: clampedY
+    },
+    distance: Math.round(dist),
+    speed: actualSpeed,
+    message: `Moving to (${Math.round(clampedX)}, ${Math.round(clampedY)}), distance: ${Math.round(dist)} pixels at speed ${actualSpeed}`
+  };
+}
+
+function applyPass(
+  game: GameState,
+  playerId: string,
+  targetPlayerId: string,
+  speed: number | undefined,
+  now: number,
+  events: GameEvent[]
+): ActionResult {
+  const allPlayers = [...game.teamA, ...game.teamB];
+  const player = allPlayers.find(p => p.id === playerId);
+  if (!player) return { success: false, message: "Player not found" };
+
+  if (!player.hasBall || game.ball.possessionPlayerId !== playerId) {
+    return { success: false, message: "Player doesn't have the ball" };
+  }
+
+  // Check cooldown
+  if (player.lastActionTime && now - player.lastActionTime < GAME_CONFIG.PASS_COOLDOWN) {
+    return { success: false, message: "Pass cooldown active" };
+  }
+
+  const targetPlayer = allPlayers.find(p => p.id === targetPlayerId);
+  if (!targetPlayer) return { success: false, message: "Target player not found" };
+
+  if (targetPlayer.team !== player.team) {
+    return { success: false, message: "Cannot pass to opponent" };
+  }
+
+  // Validate and use custom speed if provided
+  let passSpeed: number = GAME_CONFIG.PASS_SPEED;
+  if (speed !== undefined) {
+    if (speed < GAME_CONFIG.MIN_PASS_SPEED) {
+      return { success: false, message: `Speed too low. Minimum: ${GAME_CONFIG.MIN_PASS_SPEED}` };
+    }
+    if (speed > GAME_CONFIG.MAX_PASS_SPEED) {
+      return { success: false, message: `Speed too high. Maximum: ${GAME_CONFIG.MAX_PASS_SPEED}` };
+    }
+    passSpeed = speed;
+  }
+
+  // You can't be offside from a throw-in, goal kick or corner
+  const setPieceExempt = game.restart?.type === 'throwIn' || game.restart?.type === 'goalKick' || game.restart?.type === 'corner';
+  if (game.config.offside && !setPieceExempt && isOffside(game, targetPlayer)) {
+    const team: TeamId = player.team === 'A' ? 'B' : 'A';
+    const spot = { ...targetPlayer.position };
+    const defenders = team === 'A' ? game.teamA : game.teamB;
+    const taker = [...defenders].sort((a, b) => distance(a.position, spot) - distance(b.position, spot))[0];
+
+    player.stats.passes++;
+    player.lastActionTime = now;
+    game.ball.inFlight = undefined;
+    setRestart(game, 'indirectFreeKick', team, spot, taker, now);
+    events.push({ tick: tickAt(game, now), at: now, type: 'offside', playerId: targetPlayer.id, passerId: player.id, team, position: spot });
+
+    return {
+      success: true,
+      offside: true,
+      message: `Offside! ${targetPlayer.name} was offside - indirect free kick to Team ${team}`,
+    };
+  }
+
+  // Release ball and set velocity towards target
+  const dx = targetPlayer.position.x - player.position.x;
+  const dy = targetPlayer.position.y - player.position.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+
+  if (dist > 0) {
+    game.ball.velocity = {
+      vx: (dx / dist) * passSpeed,
+      vy: (dy / dist) * passSpeed,
+    };
+  }
+
+  game.ball.possessionPlayerId = undefined;
+  game.ball.inFlight = { kind: 'pass', playerId: player.id, team: player.team };
+  player.hasBall = false;
+  player.stats.passes++;
+  player.lastActionTime = now;
+
+  return {
+    success: true,
+    message: `Passed to ${targetPlayer.name}`,
+    ballVelocity: game.ball.velocity,
+    speed: passSpeed
+  };
+}
+
+function applyShoot(
+  game: GameState,
+  playerId: string,
+  speed: number | undefined,
+  now: number
+): ActionResult {
+  const allPlayers = [...game.teamA, ...game.teamB];
+  const player = allPlayers.find(p => p.id === playerId);
+  if (!player) return { success: false, message: "Player not found" };
+
+  if (!player.hasBall || game.ball.possessionPlayerId !== playerId) {
+    return { success: false, message: "Player doesn't have the ball" };
+  }
+
+  // Check cooldown
+  if (player.lastActionTime && now - player.lastActionTime < GAME_CONFIG.SHOOT_COOLDOWN) {
+    return { success: false, message: "Shoot cooldown active" };
+  }
+
+  // Validate and use custom speed if provided
+  let shootSpeed: number = GAME_CONFIG.SHOOT_SPEED;
+  if (speed !== undefined) {
+    if (speed < GAME_CONFIG.MIN_SHOOT_SPEED) {
+      return { success: false, message: `Speed too low. Minimum: ${GAME_CONFIG.MIN_SHOOT_SPEED}` };
+    }
+    if (speed > GAME_CONFIG.MAX_SHOOT_SPEED) {
+      return { success: false, message: `Speed too high. Maximum: ${GAME_CONFIG.MAX_SHOOT_SPEED}` };
+    }
+    shootSpeed = speed;
+  }
+
+  // Determine target goal
+  const targetGoalX = attackingGoalX(game, player.team);
+  const targetGoalY = GAME_CONFIG.FIELD_HEIGHT / 2;
+
+  // Calculate shoot direction
+  const dx = targetGoalX - player.position.x;
+  const dy = targetGoalY - player.position.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+
+  if (dist > 0) {
+    game.ball.velocity = {
+      vx: (dx / dist) * shootSpeed,
+      vy: (dy / dist) * shootSpeed,
+    };
+  }
+
+  game.ball.possessionPlayerId = undefined;
+  game.ball.inFlight = { kind: 'shot', playerId: player.id, team: player.team };
+  player.hasBall = false;
+  player.stats.shots++;
+  player.lastActionTime = now;
+
+  return {
+    success: true,
+    message: `Shot towards goal!`,
+    ballVelocity: game.ball.velocity,
+    speed: shootSpeed
+  };
+}
+
+function applyTackle(
+  game: GameState,
+  playerId: string,
+  targetPlayerId: string,
+  now: number,
+  events: GameEvent[]
+): ActionResult {
+  const allPlayers = [...game.teamA, ...game.teamB];
+  const player = allPlayers.find(p => p.id === playerId);
+  if (!player) return { success: false, message: "Player not found" };
+
+  // Check cooldown
+  if (player.lastActionTime && now - player.lastActionTime < GAME_CONFIG.TACKLE_COOLDOWN) {
+    return { success: false, message: "Tackle cooldown active" };
+  }
+
+  const targetPlayer = allPlayers.find(p => p.id === targetPlayerId);
+  if (!targetPlayer) return { success: false, message: "Target player not found" };
+
+  if (targetPlayer.team === player.team) {
+    return { success: false, message: "Cannot tackle teammate" };
+  }
+
+  if (!targetPlayer.hasBall) {
+    return { success: false, message: "Target doesn't have the ball" };
+  }
+
+  const dist = distance(player.position, targetPlayer.position);
+  if (dist > GAME_CONFIG.TACKLE_DISTANCE) {
+    return { success: false, message: "Too far to tackle" };
+  }
+
+  // Tackle attempt
+  const success = random(game) < GAME_CONFIG.TACKLE_SUCCESS_RATE;
+
+  if (success) {
+    // Successful tackle - ball becomes free
+    game.ball.possessionPlayerId = undefined;
+    targetPlayer.hasBall = false;
+
+    // Ball bounces away slightly
+    const angle = random(game) * Math.PI * 2;
+    game.ball.velocity = {
+      vx: Math.cos(angle) * 2,
+      vy: Math.sin(angle) * 2,
+    };
+
+    player.stats.tacklesWon++;
+  } else {
+    player.stats.tacklesLost++;
+  }
+
+  player.stats.tackles++;
+  player.lastActionTime = now;
+  events.push({ tick: tickAt(game, now), at: now, type: 'tackle', playerId, targetPlayerId, success });
+
+  // A missed tackle may be a foul
+  const foul = !success && random(game) < foulProbability(player, targetPlayer);
+  if (!foul) {
+    return {
+      success: true,
+      tackleSuccess: success,
+      message: success ? "Tackle successful!" : "Tackle failed",
+      ballIsFree: success
+    };
+  }
+
+  const card = awardFoul(game, player, targetPlayer, now, events);
+  const restart = game.restart?.type === 'penalty' ? "Penalty" : "Free kick";
+
+  return {
+    success: true,
+    tackleSuccess: false,
+    foul: true,
+    card,
+    message: card ? `Foul! ${restart} and a ${card} card` : `Foul! ${restart}`,
+    ballIsFree: false
+  };
+}
+
+/**
+ * Chance that a missed tackle is a foul: higher from behind a moving player,
+ * at speed, and for players who keep fouling
+ */
+function foulProbability(tackler: Player, target: Player): number {
+  const chance = GAME_CONFIG.FOUL_BASE_RATE +
+    GAME_CONFIG.FOUL_BEHIND_PENALTY * fromBehind(tackler, target) +
+    GAME_CONFIG.FOUL_SPEED_PENALTY * runningSpeed(tackler) +
+    GAME_CONFIG.FOUL_REPEAT_PENALTY * (tackler.stats.fouls ?? 0);
+  return Math.min(0.95, chance);
+}
+
+// 1 when the tackler comes straight in behind a moving target, 0 from the front or side
+function fromBehind(tackler: Player, target: Player): number {
+  if (!target.targetPosition) return 0;
+
+  const heading = normalize(target.targetPosition.x - target.position.x, target.targetPosition.y - target.position.y);
+  const approach = normalize(target.position.x - tackler.position.x, target.position.y - tackler.position.y);
+  return Math.max(0, heading.vx * approach.vx + heading.vy * approach.vy);
+}
+
+// 0 standing still up to 1 at MAX_PLAYER_SPEED
+function runningSpeed(player: Player): number {
+  if (!player.targetPosition) return 0;
+
+  const speed = player.speed ?? GAME_CONFIG.PLAYER_SPEED;
+  return Math.max(0, Math.min(1,
+    (speed - GAME_CONFIG.MIN_PLAYER_SPEED) / (GAME_CONFIG.MAX_PLAYER_SPEED - GAME_CONFIG.MIN_PLAYER_SPEED)
+  ));
+}
+
+/**
+ * Give the fouled player's team a free kick where it happened (a penalty if
+ * it was in the offender's box), and book the offender for a reckless or
+ * persistent foul. Returns the card shown, if any.
+ */
+function awardFoul(state: GameState, offender: Player, fouled: Player, now: number, events: GameEvent[]): CardType | undefined {
+  const tick = tickAt(state, now);
+  const reckless = fromBehind(offender, fouled) > GAME_CONFIG.RECKLESS_TACKLE_ANGLE;
+  const persistent = offender.stats.fouls >= GAME_CONFIG.FOULS_BEFORE_CAUTION;
+  offender.stats.fouls = (offender.stats.fouls ?? 0) + 1;
+
+  const penalty = inPenaltyArea(state, offender.team, fouled.position);
+  const type = penalty ? 'penalty' : 'freeKick';
+  const goalX = defendingGoalX(state, offender.team);
+  const spot = penalty
+    ? { x: goalX === 0 ? GAME_CONFIG.PENALTY_SPOT_DISTANCE : GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.PENALTY_SPOT_DISTANCE, y: GAME_CONFIG.FIELD_HEIGHT / 2 }
+    : { ...fouled.position };
+
+  setRestart(state, type, fouled.team, spot, fouled, now);
+  events.push({ tick, at: now, type: 'foul', playerId: offender.id, targetPlayerId: fouled.id, restart: type, position: { ...spot } });
+
+  if (penalty) {
+    // The keeper faces it from the middle of the goal line
+    const keeper = (offender.team === 'A' ? state.teamA : state.teamB).find(p => p.role === 'goalkeeper');
+    if (keeper) {
+      keeper.position = { x: goalX === 0 ? GAME_CONFIG.PLAYER_RADIUS : GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.PLAYER_RADIUS, y: GAME_CONFIG.FIELD_HEIGHT / 2 };
+      keeper.targetPosition = undefined;
+    }
+  }
+
+  if (!reckless && !persistent) return undefined;
+
+  offender.yellowCards = (offender.yellowCards ?? 0) + 1;
+  const sentOff = offender.yellowCards >= 2;
+  const card: CardType = sentOff ? 'red' : 'yellow';
+
+  if (sentOff) {
+    const team = offender.team === 'A' ? state.teamA : state.teamB;
+    team.splice(team.indexOf(offender), 1);
+    offender.targetPosition = undefined;
+    state.sentOff = [...(state.sentOff ?? []), offender];
+  }
+
+  events.push({ tick, at: now, type: 'card', playerId: offender.id, team: offender.team, card, sentOff });
+  return card;
+}
+
+function applySave(
+  game: GameState,
+  playerId: string,
+  now: number,
+  events: GameEvent[]
+): ActionResult {
+  const allPlayers = [...game.teamA, ...game.teamB];
+  const player = allPlayers.find(p => p.id === playerId);
+  if (!player) return { success: false, message: "Player not found" };
+
+  if (player.role !== 'goalkeeper') {
+    return { success: false, message: "Only goalkeepers can make saves" };
+  }
+
+  if (!inPenaltyArea(game, player.team, player.position)) {
+    return { success: false, message: "Goalkeepers can only handle the ball inside their own penalty area" };
+  }
+
+  // Check cooldown
+  if (player.lastActionTime && now - player.lastActionTime < GAME_CONFIG.SAVE_COOLDOWN) {
+    return { success: false, message: "Save cooldown active" };
+  }
+
+  if (game.ball.possessionPlayerId) {
+    return { success: false, message: "Ball is not loose" };
+  }
+
+  if (distance(player.position, game.ball.position) > GAME_CONFIG.SAVE_DISTANCE) {
+    return { success: false, message: "Too far to reach the ball" };
+  }
+
+  const chance = saveProbability(player.position, game.ball);
+  const success = random(game) < chance;
+
+  if (success) {
+    // Caught - the keeper has the ball at their feet
+    allPlayers.forEach(p => p.hasBall = false);
+    game.ball.position = { ...player.position };
+    game.ball.velocity = { vx: 0, vy: 0 };
+    trackPossession(game, player);
+    game.ball.possessionPlayerId = player.id;
+    game.ball.lastTouchPlayerId = player.id;
+    player.hasBall = true;
+  } else if (game.ball.inFlight?.kind === 'shot') {
+    // Beaten - reaching the ball afterwards doesn't get a second go
+    game.ball.inFlight.beaten = [...(game.ball.inFlight.beaten ?? []), player.id];
+  }
+
+  player.lastActionTime = now;
+  events.push({ tick: tickAt(game, now), at: now, type: 'save', playerId, success, chance });
+
+  return {
+    success: true,
+    saveSuccess: success,
+    saveChance: chance,
+    message: success ? "Saved!" : "Save missed",
+  };
+}
+
+// Draw from the game's seeded generator, advancing its state
+function random(state: GameState): number {
+  const { value, rngState } = nextRandom(state.rngState ?? state.seed ?? 0);
+  state.rngState = rngState;
+  return value;
+}
+
+/**
+ * Rebuild a match from a starting state and its action log (the `action`
+ * events of the match event log will do). Returns the state at `until`, or
+ * right after the last action.
+ */
+export function replay(initial: GameState, log: ActionLogEntry[], until?: number): GameState {
+  let state = initial;
+
+  for (const entry of log) {
+    if (until !== undefined && entry.at > until) break;
+    // Logged actions happened on a fully simulated game - catch up without the cap first
+    state = advance(state, entry.at, Infinity).state;
+    state = applyAction(state, entry.action, entry.at).state;
+  }
+
+  if (until !== undefined) {
+    state = advance(state, until, Infinity).state;
+  }
+
+  return state;
+}
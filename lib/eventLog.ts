@@ -0,0 +1,17 @@
+import type { GameEvent } from "@/types/game";
+import { getGameStore } from "./gameStore";
+
+/**
+ * Append events to a game's match log once the write that produced them
+ * has succeeded. The game write is what counts, so a failed append is
+ * logged rather than failing the action that caused it.
+ */
+export async function recordEvents(gameId: string, version: number, events: GameEvent[]) {
+  if (events.length === 0) return;
+
+  try {
+    await getGameStore().events.append(gameId, version, events);
+  } catch (error) {
+    console.error(`Failed to record ${events.length} events for game ${gameId}:`, error);
+  }
+}
@@ -0,0 +1,111 @@
+import { GAME_CONFIG } from "@/types/game";
+import type { FormationSlot, Player, PlayerRole } from "@/types/game";
+
+/**
+ * Named formations.
+ *
+ * A formation's name lists its outfield lines from the back, the goalkeeper
+ * left out as usual: "2-1-1" is a keeper, two defenders, a midfielder and a
+ * striker. The first line defends, the last one attacks and any lines in
+ * between are midfield; a single line is midfield. Each line is spread
+ * evenly across the pitch, so a team never stacks players on one spot.
+ *
+ * Slots are laid out for team A attacking the right-hand goal; the engine
+ * mirrors them for team B and after half-time (homePosition in
+ * lib/engine.ts). Team sizes without presets have no formation and fall
+ * back to the per-role spots of getInitialPosition.
+ */
+
+// Presets per players per team, default first
+const PRESETS: Record<number, string[]> = {
+  2: ['1'],
+  3: ['1-1', '2'],
+  4: ['2-1', '1-2', '1-1-1'],
+  5: ['2-1-1', '1-2-1', '2-2', '3-1'],
+  6: ['2-2-1', '2-1-2', '3-1-1'],
+  7: ['2-3-1', '3-2-1', '3-1-2'],
+  8: ['3-3-1', '3-2-2', '2-3-2'],
+  9: ['3-3-2', '3-4-1', '4-3-1'],
+  10: ['4-3-2', '3-4-2', '4-4-1'],
+  11: ['4-4-2', '4-3-3', '3-5-2', '4-5-1', '4-2-3-1'],
+};
+
+// Depth of the back and front lines, from team A's goal line
+const KEEPER_X = 50;
+const BACK_LINE_X = 200;
+const FRONT_LINE_X = GAME_CONFIG.FIELD_WIDTH - 300;
+
+function buildSlots(name: string): FormationSlot[] {
+  const lines = name.split('-').map(Number);
+  const slots: FormationSlot[] = [
+    { role: 'goalkeeper', position: { x: KEEPER_X, y: GAME_CONFIG.FIELD_HEIGHT / 2 } },
+  ];
+
+  lines.forEach((count, line) => {
+    const last = lines.length - 1;
+    const role: PlayerRole = last === 0 ? 'midfielder' : line === 0 ? 'defender' : line === last ? 'striker' : 'midfielder';
+    const x = last === 0
+      ? GAME_CONFIG.FIELD_WIDTH / 2 - 100
+      : BACK_LINE_X + ((FRONT_LINE_X - BACK_LINE_X) * line) / last;
+
+    for (let i = 0; i < count; i++) {
+      slots.push({ role, position: { x: Math.round(x), y: Math.round((GAME_CONFIG.FIELD_HEIGHT * (i + 1)) / (count + 1)) } });
+    }
+  });
+
+  return slots;
+}
+
+const FORMATIONS: Record<string, FormationSlot[]> = Object.fromEntries(
+  Object.values(PRESETS).flat().map(name => [name, buildSlots(name)])
+);
+
+/**
+ * Formation names available for a team size, default first
+ */
+export function formationsFor(playersPerTeam: number): string[] {
+  return PRESETS[playersPerTeam] ?? [];
+}
+
+export function defaultFormation(playersPerTeam: number): string | undefined {
+  return formationsFor(playersPerTeam)[0];
+}
+
+export function getFormationSlots(name: string | undefined): FormationSlot[] | undefined {
+  return name ? FORMATIONS[name] : undefined;
+}
+
+/**
+ * Check a requested formation against the team size
+ */
+export function validateFormation(
+  name: unknown,
+  playersPerTeam: number
+): { success: true } | { success: false; message: string } {
+  const available = formationsFor(playersPerTeam);
+  if (typeof name === 'string' && available.includes(name)) {
+    return { success: true };
+  }
+  if (available.length === 0) {
+    return { success: false, message: `There are no formations for ${playersPerTeam} players per team` };
+  }
+  return { success: false, message: `formation must be one of: ${available.join(", ")} (for ${playersPerTeam} players per team)` };
+}
+
+/**
+ * The slot a new player takes: the first free one for `role`, or the first
+ * free one of any kind when the role is taken or not given. Outfield players
+ * only end up in goal once every other slot is taken. The player plays the
+ * slot's role, which is not always the one asked for.
+ */
+export function pickSlot(formation: string | undefined, roster: Player[], role?: PlayerRole): number | undefined {
+  const slots = getFormationSlots(formation);
+  if (!slots) return undefined;
+
+  const taken = new Set(roster.map(p => p.slot));
+  const free = slots.map((_, index) => index).filter(index => !taken.has(index));
+
+  return free.find(index => slots[index].role === role)
+    ?? free.find(index => !role || slots[index].role !== 'goalkeeper')
+    ?? free[0];
+}
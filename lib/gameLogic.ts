@@ -1,297 +1,149 @@
-import { GAME_CONFIG, GameState, Player, Ball, Position, TeamId, PlayerRole } from "@/types/game";
+import { GAME_CONFIG, GameState, PublicGameState, GameListing, RosterEntry, Player, PlayerStats, TeamId, PlayerRole, ReplayFrame, Tiebreak, TournamentLink, BotDifficulty } from "@/types/game";
 import { v4 as uuidv4 } from "uuid";
-import { dbConnect } from "./dbConnect";
-import { GameStateModel, IGameStateDoc } from "@/models/GameState";
+import { getGameStore } from "./gameStore";
+import { advance, replay, tickAt, tickTime, homePosition, ActionLogEntry } from "./engine";
+import { defaultFormation, getFormationSlots, pickSlot, validateFormation } from "./formations";
+import { recordEvents } from "./eventLog";
+import { createSeed } from "./rng";
+import { isGameLoopEnabled } from "./actionQueue";
+import { issuePlayerToken, issueControllerToken } from "./playerAuth";
+import { recordCareers } from "./profiles";
+import { recordRatings } from "./ratings";
+import { recordTournamentResult } from "./tournaments";
 
 /**
- * TECHNICAL IMPROVEMENT #1: Use findOneAndUpdate with atomic operations
- * instead of retry loops. This is more efficient and reduces race conditions.
+ * TECHNICAL IMPROVEMENT #1: Optimistic concurrency on `version`
+ * Every write goes through GameStore.updateIfVersion with the version that
+ * was loaded, so two writers acting on the same game can't silently
+ * overwrite each other. Callers decide how to retry when the write loses.
  */
 
-// Helper: Calculate distance between two points
-export function distance(p1: Position, p2: Position): number {
-  return Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2);
-}
-
-// Helper: Normalize vector
-function normalize(vx: number, vy: number): { vx: number; vy: number } {
-  const mag = Math.sqrt(vx * vx + vy * vy);
-  if (mag === 0) return { vx: 0, vy: 0 };
-  return { vx: vx / mag, vy: vy / mag };
-}
+const TIMING_SETTINGS = {
+  matchDuration: "matchDuration must be a number of milliseconds, 0 or more (0 = no time limit)",
+  botFillTimeout: "botFillTimeout must be a number of milliseconds, 0 or more (0 = never)",
+  spectatorDelay: "spectatorDelay must be a number of milliseconds, 0 or more",
+} as const;
 
 /**
- * TECHNICAL IMPROVEMENT #2: Fixed timestep simulation
- * Ensures consistent physics regardless of frame rate
+ * Check the timing settings of a create request (game or tournament):
+ * durations are finite and not negative, and there are 1 or 2 halves
  */
-export function simulate(state: IGameStateDoc, now: number): boolean {
-  const dt = now - state.lastUpdate;
-  if (dt < GAME_CONFIG.SIMULATION_STEP) return false;
-
-  let stateChanged = false;
-
-  // Handle countdown
-  if (state.status === "countdown" && state.countdownStartTime) {
-    const elapsed = now - state.countdownStartTime;
-    if (elapsed >= GAME_CONFIG.COUNTDOWN_DURATION) {
-      state.status = "playing";
-      state.startedAt = now;
-      state.countdownStartTime = undefined;
-      stateChanged = true;
-    }
-  }
-
-  if (state.status === "playing") {
-    // Move players towards their target positions
-    const allPlayers = [...state.teamA, ...state.teamB];
-    for (const player of allPlayers) {
-      if (player.targetPosition) {
-        const dx = player.targetPosition.x - player.position.x;
-        const dy = player.targetPosition.y - player.position.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-
-        if (dist > 0.5) {
-          // Move towards target at constant speed (use player's custom speed if set)
-          const playerSpeed = player.speed || GAME_CONFIG.PLAYER_SPEED;
-          const moveAmount = Math.min(playerSpeed, dist);
-          player.position.x += (dx / dist) * moveAmount;
-          player.position.y += (dy / dist) * moveAmount;
-
-          // Keep player in bounds
-          player.position.x = Math.max(GAME_CONFIG.PLAYER_RADIUS, Math.min(GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.PLAYER_RADIUS, player.position.x));
-          player.position.y = Math.max(GAME_CONFIG.PLAYER_RADIUS, Math.min(GAME_CONFIG.FIELD_HEIGHT - GAME_CONFIG.PLAYER_RADIUS, player.position.y));
-
-          // If player has ball, ball moves with them
-          if (player.hasBall && state.ball.possessionPlayerId === player.id) {
-            state.ball.position = { ...player.position };
-            state.markModified('ball.position');
-          }
-
-          state.markModified('teamA');
-          state.markModified('teamB');
-          stateChanged = true;
-        } else {
-          // Reached target - clear it
-          player.targetPosition = undefined;
-          state.markModified('teamA');
-          state.markModified('teamB');
-          stateChanged = true;
-        }
-      }
-    }
-
-    // Update ball physics
-    if (!state.ball.possessionPlayerId) {
-      // Ball is free - apply velocity and friction
-      state.ball.position.x += state.ball.velocity.vx;
-      state.ball.position.y += state.ball.velocity.vy;
-      state.ball.velocity.vx *= GAME_CONFIG.BALL_FRICTION;
-      state.ball.velocity.vy *= GAME_CONFIG.BALL_FRICTION;
-
-      // Stop ball if velocity is very low
-      if (Math.abs(state.ball.velocity.vx) < 0.1 && Math.abs(state.ball.velocity.vy) < 0.1) {
-        state.ball.velocity.vx = 0;
-        state.ball.velocity.vy = 0;
-      }
-
-      // Keep ball in bounds
-      state.ball.position.x = Math.max(GAME_CONFIG.BALL_RADIUS, Math.min(GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.BALL_RADIUS, state.ball.position.x));
-      state.ball.position.y = Math.max(GAME_CONFIG.BALL_RADIUS, Math.min(GAME_CONFIG.FIELD_HEIGHT - GAME_CONFIG.BALL_RADIUS, state.ball.position.y));
-
-      // Mark ball as modified for Mongoose
-      state.markModified('ball');
-
-      // Check for goal
-      const goalY = GAME_CONFIG.FIELD_HEIGHT / 2;
-      const goalHalfWidth = GAME_CONFIG.GOAL_WIDTH / 2;
-
-      // Team A goal (left side, x = 0)
-      if (state.ball.position.x <= GAME_CONFIG.BALL_RADIUS &&
-          state.ball.position.y >= goalY - goalHalfWidth &&
-          state.ball.position.y <= goalY + goalHalfWidth) {
-        state.score.teamB++;
-        if (state.ball.lastTouchPlayerId) {
-          const scorer = [...state.teamB].find(p => p.id === state.ball.lastTouchPlayerId);
-          if (scorer) {
-            scorer.stats.goals++;
-            state.markModified('teamB');
-          }
-        }
-        resetBall(state);
-        state.markModified('score');
-        stateChanged = true;
-
-        if (state.score.teamB >= state.config.goalsToWin) {
-          state.status = "finished";
-          state.winner = "B";
-          state.finishedAt = now;
-        }
-      }
-
-      // Team B goal (right side, x = FIELD_WIDTH)
-      if (state.ball.position.x >= GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.BALL_RADIUS &&
-          state.ball.position.y >= goalY - goalHalfWidth &&
-          state.ball.position.y <= goalY + goalHalfWidth) {
-        state.score.teamA++;
-        if (state.ball.lastTouchPlayerId) {
-          const scorer = [...state.teamA].find(p => p.id === state.ball.lastTouchPlayerId);
-          if (scorer) {
-            scorer.stats.goals++;
-            state.markModified('teamA');
-          }
-        }
-        resetBall(state);
-        state.markModified('score');
-        stateChanged = true;
-
-        if (state.score.teamA >= state.config.goalsToWin) {
-          state.status = "finished";
-          state.winner = "A";
-          state.finishedAt = now;
-        }
-      }
-
-      // Check for possession claim
-      // Only claim possession if:
-      // 1. Ball velocity is very low (nearly stopped), OR
-      // 2. Ball is being claimed by a different player (interception)
-      const ballSpeed = Math.sqrt(state.ball.velocity.vx ** 2 + state.ball.velocity.vy ** 2);
-      const ballNearlyStoppedThreshold = 0.5; // Ball considered "stopped" below this speed
-
-      const allPlayers = [...state.teamA, ...state.teamB];
-      for (const player of allPlayers) {
-        const dist = distance(player.position, state.ball.position);
-
-        // Can claim possession if:
-        // - Ball is close enough, AND
-        // - Either ball has nearly stopped OR this is a different player (interception)
-        const canClaim = dist <= GAME_CONFIG.POSSESSION_DISTANCE &&
-                        (ballSpeed <= ballNearlyStoppedThreshold ||
-                         player.id !== state.ball.lastTouchPlayerId);
-
-        if (canClaim) {
-          state.ball.possessionPlayerId = player.id;
-          state.ball.lastTouchPlayerId = player.id;
-          state.ball.velocity = { vx: 0, vy: 0 };
-          player.hasBall = true;
-          state.markModified('ball');
-          state.markModified('teamA');
-          state.markModified('teamB');
-          stateChanged = true;
-          console.log(`Ball claimed by ${player.name} (${player.id}), was moving at speed ${ballSpeed.toFixed(2)}`);
-          break;
-        }
-      }
-    } else {
-      // Ball is possessed - move with player
-      const allPlayers = [...state.teamA, ...state.teamB];
-      const possessor = allPlayers.find(p => p.id === state.ball.possessionPlayerId);
-      if (possessor) {
-        state.ball.position = { ...possessor.position };
-        state.markModified('ball.position');
-      }
-    }
-
-    if (stateChanged) {
-      state.version++;
+export function validateMatchTimings(
+  config: { [K in keyof typeof TIMING_SETTINGS | 'halves']?: unknown } | undefined
+): { success: true } | { success: false; message: string } {
+  for (const [key, message] of Object.entries(TIMING_SETTINGS) as [keyof typeof TIMING_SETTINGS, string][]) {
+    const value = config?.[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return { success: false, message };
     }
   }
-
-  state.lastUpdate = now;
-  return stateChanged;
-}
-
-function resetBall(state: IGameStateDoc) {
-  state.ball.position = {
-    x: GAME_CONFIG.FIELD_WIDTH / 2,
-    y: GAME_CONFIG.FIELD_HEIGHT / 2,
-  };
-  state.ball.velocity = { vx: 0, vy: 0 };
-  state.ball.possessionPlayerId = undefined;
-
-  // Clear all players' ball possession
-  [...state.teamA, ...state.teamB].forEach(p => p.hasBall = false);
-
-  // Mark as modified for Mongoose
-  state.markModified('ball');
-  state.markModified('teamA');
-  state.markModified('teamB');
-}
-
-// Get initial position for player based on role and team
-function getInitialPosition(role: PlayerRole, team: TeamId, teamSize: number): Position {
-  const centerY = GAME_CONFIG.FIELD_HEIGHT / 2;
-  const isTeamA = team === 'A';
-
-  switch (role) {
-    case 'goalkeeper':
-      return {
-        x: isTeamA ? 50 : GAME_CONFIG.FIELD_WIDTH - 50,
-        y: centerY,
-      };
-    case 'defender':
-      return {
-        x: isTeamA ? 200 : GAME_CONFIG.FIELD_WIDTH - 200,
-        y: centerY + (teamSize % 2 === 0 ? -100 : 100),
-      };
-    case 'midfielder':
-      return {
-        x: GAME_CONFIG.FIELD_WIDTH / 2 + (isTeamA ? -100 : 100),
-        y: centerY + (teamSize % 3 === 0 ? -150 : teamSize % 3 === 1 ? 0 : 150),
-      };
-    case 'striker':
-      return {
-        x: isTeamA ? GAME_CONFIG.FIELD_WIDTH - 300 : 300,
-        y: centerY,
-      };
+  const halves = config?.halves;
+  if (halves !== undefined && halves !== 1 && halves !== 2) {
+    return { success: false, message: "halves must be 1 or 2" };
   }
+  return { success: true };
 }
 
 /**
- * Create a new game instance
+ * Create a new game instance. `handle` links the creator to a profile the
+ * caller has already authenticated. Tournament fixtures pass a null
+ * `playerName` to create the game empty, and a `tournament` link so only the
+ * two entrants' agents can join it. `config.formation` is where both sides
+ * start; a side's first player can still pick another one on join.
+ *
+ * `seed` fixes the PRNG seed for tests and server-side callers. It is not
+ * part of `config`, which comes straight from the public create route:
+ * whoever knows the seed can predict every tackle, save and foul.
  */
 export async function createGame(
-  playerName: string,
-  config: { playersPerTeam?: number; goalsToWin?: number } = {}
-): Promise<{ success: boolean; gameId?: string; playerId?: string; message?: string }> {
-  await dbConnect();
-
+  playerName: string | null,
+  config: {
+    playersPerTeam?: number;
+    goalsToWin?: number;
+    matchDuration?: number;
+    halves?: number;
+    tiebreak?: Tiebreak;
+    offside?: boolean;
+    botFillTimeout?: number;
+    botDifficulty?: BotDifficulty;
+    spectatorDelay?: number;
+    formation?: string;
+  } = {},
+  handle?: string,
+  tournament?: TournamentLink,
+  seed: number = createSeed()
+): Promise<{ success: boolean; gameId?: string; playerId?: string; playerToken?: string; message?: string }> {
   const gameId = uuidv4();
   const playerId = uuidv4();
+  const now = Date.now();
+  const playersPerTeam = config.playersPerTeam || 5;
 
-  const initialPlayer: Player = {
-    id: playerId,
-    name: playerName,
-    team: 'A',
-    role: 'striker',
-    position: getInitialPosition('striker', 'A', 0),
-    hasBall: false,
-    stats: { goals: 0, assists: 0, passes: 0, tackles: 0 },
-  };
+  if (config.formation !== undefined) {
+    const valid = validateFormation(config.formation, playersPerTeam);
+    if (!valid.success) return valid;
+  }
+  const formation = config.formation ?? defaultFormation(playersPerTeam);
+  const formations = formation ? { A: formation, B: formation } : undefined;
+
+  const teamA: Player[] = [];
+  if (playerName !== null) {
+    const creator: Player = {
+      id: playerId,
+      name: playerName,
+      team: 'A',
+      role: 'striker',
+      position: { x: 0, y: 0 },
+      hasBall: false,
+      stats: createPlayerStats(),
+      yellowCards: 0,
+      handle,
+      slot: pickSlot(formation, teamA, 'striker'),
+    };
+    creator.role = getFormationSlots(formation)?.[creator.slot ?? -1]?.role ?? 'striker';
+    creator.position = homePosition({ formations, sidesSwapped: false }, creator, 0);
+    teamA.push(creator);
+  }
 
-  const gameState = {
-    _id: gameId,
+  const gameState: GameState = {
     gameId,
-    status: 'waiting' as const,
+    status: 'waiting',
     config: {
-      playersPerTeam: config.playersPerTeam || 5,
+      playersPerTeam,
       goalsToWin: config.goalsToWin || 3,
+      matchDuration: config.matchDuration ?? GAME_CONFIG.DEFAULT_MATCH_DURATION,
+      halves: config.halves === 2 ? 2 : 1,
+      tiebreak: config.tiebreak === 'goldenGoal' ? 'goldenGoal' : 'draw',
+      offside: config.offside === true,
+      botFillTimeout: config.botFillTimeout && config.botFillTimeout > 0 ? config.botFillTimeout : 0,
+      botDifficulty: config.botDifficulty === 'easy' || config.botDifficulty === 'hard' ? config.botDifficulty : 'medium',
+      spectatorDelay: Math.max(0, Math.min(GAME_CONFIG.SPECTATOR_MAX_DELAY, config.spectatorDelay || 0)),
     },
-    teamA: [initialPlayer],
+    teamA,
     teamB: [],
+    sentOff: [],
     ball: {
       position: { x: GAME_CONFIG.FIELD_WIDTH / 2, y: GAME_CONFIG.FIELD_HEIGHT / 2 },
       velocity: { vx: 0, vy: 0 },
     },
     score: { teamA: 0, teamB: 0 },
-    createdAt: Date.now(),
-    lastUpdate: Date.now(),
+    createdAt: now,
+    lastUpdate: now, // must equal createdAt so simulation steps land on whole ticks
     version: 0,
+    matchTime: 0,
+    half: 1,
+    sidesSwapped: false,
+    seed: seed >>> 0,
+    rngState: seed >>> 0,
+    playerTokens: {},
+    formations,
+    tournament,
   };
 
+  const playerToken = playerName !== null ? issuePlayerToken(gameState, playerId) : undefined;
+
   try {
-    await GameStateModel.create(gameState);
-    return { success: true, gameId, playerId };
+    await getGameStore().create(gameState);
+    return playerToken ? { success: true, gameId, playerId, playerToken } : { success: true, gameId };
   } catch (error) {
     console.error("Error creating game:", error);
     return { success: false, message: "Failed to create game" };
@@ -299,77 +151,244 @@ export async function createGame(
 }
 
 /**
- * Join an existing game
+ * Join an existing game, optionally linked to an (authenticated) profile.
+ * Tournament games can only be joined with `entrantTeam`, the side of the
+ * entrant the caller authenticated as. `bot` marks a server-controlled player
+ * (see lib/bots.ts). The first player on a side may change its `formation`;
+ * every player takes the first free slot for their role, or any free slot
+ * and that slot's role. The result says which role the player got.
  */
 export async function joinGame(
   gameId: string,
   playerName: string,
   teamPreference?: TeamId,
-  role?: PlayerRole
-): Promise<{ success: boolean; playerId?: string; message?: string }> {
-  await dbConnect();
+  role?: PlayerRole,
+  handle?: string,
+  entrantTeam?: TeamId,
+  bot?: BotDifficulty,
+  formation?: string
+): Promise<{ success: boolean; playerId?: string; playerToken?: string; role?: PlayerRole; message?: string }> {
+  const store = getGameStore();
+
+  for (let attempt = 0; attempt <= GAME_CONFIG.ACTION_MAX_RETRIES; attempt++) {
+    const game = await store.load(gameId);
+    if (!game) {
+      return { success: false, message: "Game not found" };
+    }
 
-  const game = await GameStateModel.findOne({ gameId });
-  if (!game) {
-    return { success: false, message: "Game not found" };
-  }
+    if (game.status !== 'waiting') {
+      return { success: false, message: "Game already started" };
+    }
 
-  if (game.status !== 'waiting') {
-    return { success: false, message: "Game already started" };
-  }
+    if (handle && [...game.teamA, ...game.teamB].some(p => p.handle === handle)) {
+      return { success: false, message: "This profile is already playing in this game" };
+    }
 
-  const playerId = uuidv4();
+    if (game.tournament && !entrantTeam) {
+      return { success: false, message: "This is a tournament game - join with your entrantId and entrantToken" };
+    }
+
+    const playerId = uuidv4();
+    const loadedVersion = game.version;
+
+    // Determine which team to join
+    let targetTeam: TeamId;
+    if (entrantTeam) {
+      // Tournament entrants always play on their fixture side
+      targetTeam = entrantTeam;
+      if ((targetTeam === 'A' ? game.teamA : game.teamB).length >= game.config.playersPerTeam) {
+        return { success: false, message: "Your team is full" };
+      }
+    } else if (teamPreference) {
+      targetTeam = teamPreference;
+      const team = targetTeam === 'A' ? game.teamA : game.teamB;
+      if (team.length >= game.config.playersPerTeam) {
+        // Preferred team is full, try other team
+        targetTeam = targetTeam === 'A' ? 'B' : 'A';
+        const otherTeam = targetTeam === 'A' ? game.teamA : game.teamB;
+        if (otherTeam.length >= game.config.playersPerTeam) {
+          return { success: false, message: "Game is full" };
+        }
+      }
+    } else {
+      // Auto-assign to team with fewer players
+      targetTeam = game.teamA.length <= game.teamB.length ? 'A' : 'B';
+    }
 
-  // Determine which team to join
-  let targetTeam: TeamId;
-  if (teamPreference) {
-    targetTeam = teamPreference;
     const team = targetTeam === 'A' ? game.teamA : game.teamB;
-    if (team.length >= game.config.playersPerTeam) {
-      // Preferred team is full, try other team
-      targetTeam = targetTeam === 'A' ? 'B' : 'A';
-      const otherTeam = targetTeam === 'A' ? game.teamA : game.teamB;
-      if (otherTeam.length >= game.config.playersPerTeam) {
-        return { success: false, message: "Game is full" };
+
+    if (formation !== undefined && formation !== game.formations?.[targetTeam]) {
+      const valid = validateFormation(formation, game.config.playersPerTeam);
+      if (!valid.success) return valid;
+      if (team.length > 0) {
+        return { success: false, message: `Your team already plays ${game.formations?.[targetTeam] ?? "without a formation"}` };
       }
+      game.formations = { ...game.formations, [targetTeam]: formation };
+    }
+
+    // With a formation the slot decides the role, so slot and role never disagree
+    const slot = pickSlot(game.formations?.[targetTeam], team, role);
+    const slotRole = slot !== undefined ? getFormationSlots(game.formations?.[targetTeam])?.[slot]?.role : undefined;
+    const assignedRole = slotRole || role || autoAssignRole(team);
+
+    const newPlayer: Player = {
+      id: playerId,
+      name: playerName,
+      team: targetTeam,
+      role: assignedRole,
+      position: { x: 0, y: 0 },
+      hasBall: false,
+      stats: createPlayerStats(),
+      yellowCards: 0,
+      handle,
+      bot,
+      slot,
+    };
+    newPlayer.position = homePosition(game, newPlayer, team.length);
+
+    team.push(newPlayer);
+    const playerToken = issuePlayerToken(game, playerId);
+
+    game.version++;
+    startIfFull(game);
+
+    if (await store.updateIfVersion(game, loadedVersion)) {
+      await recordStart(game);
+      return { success: true, playerId, playerToken, role: assignedRole };
     }
-  } else {
-    // Auto-assign to team with fewer players
-    targetTeam = game.teamA.length <= game.teamB.length ? 'A' : 'B';
+
+    // Another player joined at the same time - reload and re-check capacity
+    console.warn(`Join conflict on game ${gameId}, retrying (attempt ${attempt + 1})`);
   }
 
-  const team = targetTeam === 'A' ? game.teamA : game.teamB;
+  return { success: false, message: "Game is busy, please try again" };
+}
+
+/**
+ * Claim a whole side for one team controller: `name` gets a player in every
+ * slot of `formation` (default: the side's current formation) and a single
+ * controllerToken that acts for all of them. The side must be empty; `team`
+ * defaults to the first empty one. Tournament games can only be claimed with
+ * `entrantTeam`, as in joinGame.
+ */
+export async function joinAsTeamController(
+  gameId: string,
+  name: string,
+  team?: TeamId,
+  formation?: string,
+  entrantTeam?: TeamId
+): Promise<{ success: boolean; team?: TeamId; playerIds?: string[]; controllerToken?: string; message?: string }> {
+  const store = getGameStore();
+
+  for (let attempt = 0; attempt <= GAME_CONFIG.ACTION_MAX_RETRIES; attempt++) {
+    const game = await store.load(gameId);
+    if (!game) {
+      return { success: false, message: "Game not found" };
+    }
 
-  // Auto-assign role if not specified
-  const assignedRole = role || autoAssignRole(team);
+    if (game.status !== 'waiting') {
+      return { success: false, message: "Game already started" };
+    }
 
-  const newPlayer: Player = {
-    id: playerId,
-    name: playerName,
-    team: targetTeam,
-    role: assignedRole,
-    position: getInitialPosition(assignedRole, targetTeam, team.length),
-    hasBall: false,
-    stats: { goals: 0, assists: 0, passes: 0, tackles: 0 },
-  };
+    if (game.tournament && !entrantTeam) {
+      return { success: false, message: "This is a tournament game - join with your entrantId and entrantToken" };
+    }
+
+    const size = game.config.playersPerTeam;
+    if (formation !== undefined) {
+      const valid = validateFormation(formation, size);
+      if (!valid.success) return valid;
+    }
+
+    const isOpen = (side: TeamId) => (side === 'A' ? game.teamA : game.teamB).length === 0 && !game.controllers?.[side];
+    const targetTeam = entrantTeam ?? team ?? (['A', 'B'] as TeamId[]).find(isOpen);
+    if (!targetTeam || !isOpen(targetTeam)) {
+      return { success: false, message: team || entrantTeam ? "That side already has players" : "No empty side left" };
+    }
+
+    const loadedVersion = game.version;
+    const roster = targetTeam === 'A' ? game.teamA : game.teamB;
+    if (formation !== undefined) {
+      game.formations = { ...game.formations, [targetTeam]: formation };
+    }
+    const slots = getFormationSlots(game.formations?.[targetTeam]);
+
+    for (let i = 0; i < size; i++) {
+      const player: Player = {
+        id: uuidv4(),
+        name: `${name} ${i + 1}`,
+        team: targetTeam,
+        role: slots?.[i]?.role ?? autoAssignRole(roster),
+        position: { x: 0, y: 0 },
+        hasBall: false,
+        stats: createPlayerStats(),
+        yellowCards: 0,
+        slot: slots?.[i] ? i : undefined,
+      };
+      player.position = homePosition(game, player, roster.length);
+      roster.push(player);
+    }
+
+    const playerIds = roster.map(p => p.id);
+    game.controllers = { ...game.controllers, [targetTeam]: { name, formation: game.formations?.[targetTeam], playerIds } };
+    const controllerToken = issueControllerToken(game, targetTeam);
 
-  team.push(newPlayer);
+    game.version++;
+    startIfFull(game);
+
+    if (await store.updateIfVersion(game, loadedVersion)) {
+      await recordStart(game);
+      return { success: true, team: targetTeam, playerIds, controllerToken };
+    }
 
-  // Mark team arrays as modified for Mongoose
-  game.markModified('teamA');
-  game.markModified('teamB');
+    console.warn(`Controller join conflict on game ${gameId}, retrying (attempt ${attempt + 1})`);
+  }
 
-  game.version++;
+  return { success: false, message: "Game is busy, please try again" };
+}
 
-  // Check if game should start
+/**
+ * Start the countdown once both sides are full
+ */
+function startIfFull(game: GameState) {
   if (game.teamA.length >= game.config.playersPerTeam && game.teamB.length >= game.config.playersPerTeam) {
+    const now = Date.now();
     game.status = 'countdown';
-    game.countdownStartTime = Date.now();
+    game.countdownStartTime = now;
+    // Nothing happens in the lobby, so skip the time spent waiting instead
+    // of catching it up MAX_CATCHUP_STEPS at a time while the countdown runs.
+    // Still on a whole tick, so steps keep landing on ticks.
+    game.lastUpdate = Math.max(game.lastUpdate, tickTime(game, tickAt(game, now)));
   }
+}
 
-  await game.save();
+/**
+ * The line-ups are final - log the snapshot replays start from
+ */
+async function recordStart(game: GameState) {
+  if (game.status === 'countdown' && game.countdownStartTime) {
+    const at = game.countdownStartTime;
+    await recordEvents(game.gameId, game.version, [{ tick: tickAt(game, at), at, type: 'start', state: game }]);
+  }
+}
 
-  return { success: true, playerId };
+function createPlayerStats(): PlayerStats {
+  return {
+    goals: 0,
+    assists: 0,
+    passes: 0,
+    passesCompleted: 0,
+    interceptions: 0,
+    shots: 0,
+    shotsOnTarget: 0,
+    tackles: 0,
+    tacklesWon: 0,
+    tacklesLost: 0,
+    saves: 0,
+    fouls: 0,
+    possessionTime: 0,
+    distanceCovered: 0,
+  };
 }
 
 function autoAssignRole(team: Player[]): PlayerRole {
@@ -383,24 +402,99 @@ function autoAssignRole(team: Player[]): PlayerRole {
 /**
  * Get game state with simulation
  */
-export async function getGameState(gameId: string): Promise<GameState | null> {
-  await dbConnect();
+export async function getGameState(gameId: string): Promise<PublicGameState | null> {
+  const store = getGameStore();
 
-  const game = await GameStateModel.findOne({ gameId });
-  if (!game) return null;
+  const loaded = await store.load(gameId);
+  if (!loaded) return null;
 
-  const now = Date.now();
-  const changed = simulate(game, now);
+  // The game loop owns the simulation - just serve its latest snapshot
+  if (isGameLoopEnabled()) {
+    return sanitizeGameState(loaded);
+  }
 
-  if (changed || game.isModified()) {
-    await game.save();
-    console.log(`Game ${gameId} state saved, version: ${game.version}, changed: ${changed}, modified paths: ${game.modifiedPaths()}`);
+  const { state: game, changed, events } = advance(loaded, Date.now());
+
+  // Persist whenever at least one step ran - the ball can move without a version bump
+  if (game !== loaded) {
+    if (await store.updateIfVersion(game, loaded.version)) {
+      await recordEvents(gameId, game.version, events);
+      await recordCareers(game, events);
+      await recordRatings(game, events);
+      await recordTournamentResult(game, events);
+      console.log(`Game ${gameId} state saved, version: ${game.version}, changed: ${changed}`);
+    } else {
+      // Someone else saved a newer version while we were simulating - serve theirs
+      const latest = await store.load(gameId);
+      if (latest) return sanitizeGameState(latest);
+    }
   }
 
   return sanitizeGameState(game);
 }
 
-function sanitizeGameState(doc: IGameStateDoc): GameState {
+/**
+ * Get game state without side effects: the elapsed steps are simulated in
+ * memory but never saved, logged or rolled into careers, ratings or
+ * tournaments. Used by the spectator broadcast.
+ */
+export async function peekGameState(gameId: string): Promise<PublicGameState | null> {
+  const loaded = await getGameStore().load(gameId);
+  if (!loaded) return null;
+
+  if (isGameLoopEnabled()) {
+    return sanitizeGameState(loaded);
+  }
+
+  return sanitizeGameState(advance(loaded, Date.now()).state);
+}
+
+/**
+ * Rebuild the state of a game at `tick` from its match event log.
+ * Defaults to the last tick; out-of-range ticks are clamped to the match.
+ */
+export async function getReplay(
+  gameId: string,
+  tick?: number
+): Promise<{ success: boolean; message?: string; replay?: ReplayFrame } | null> {
+  const store = getGameStore();
+
+  const game = await store.load(gameId);
+  if (!game) return null;
+
+  const log = await store.events.list(gameId);
+  const start = log.find(event => event.type === 'start');
+  if (!start || start.type !== 'start') {
+    return { success: false, message: "Match has not started yet" };
+  }
+
+  const startTick = start.tick;
+  const endTick = tickAt(game, game.finishedAt ?? game.lastUpdate);
+  const target = tick === undefined ? endTick : Math.max(startTick, Math.min(endTick, Math.floor(tick)));
+
+  // Include every action taken during the target tick, not just the ones on its first millisecond
+  const until = tickTime(game, target + 1) - 1;
+  const actions: ActionLogEntry[] = log.flatMap(event =>
+    event.type === 'action' ? [{ at: event.at, action: event.action }] : []
+  );
+
+  return {
+    success: true,
+    replay: {
+      tick: target,
+      startTick,
+      endTick,
+      gameState: sanitizeGameState(replay(start.state, actions, until)),
+      events: log.filter(event => event.type !== 'start' && event.tick <= target),
+    },
+  };
+}
+
+/**
+ * Public view of a game: player and controller tokens and PRNG state are
+ * left out, so nobody can act for another player or predict tackle outcomes
+ */
+function sanitizeGameState(doc: GameState): PublicGameState {
   return {
     gameId: doc.gameId,
     status: doc.status,
@@ -416,18 +510,35 @@ function sanitizeGameState(doc: IGameStateDoc): GameState {
     lastUpdate: doc.lastUpdate,
     version: doc.version,
     countdownStartTime: doc.countdownStartTime,
+    kickoffTeam: doc.kickoffTeam,
+    kickoffStartTime: doc.kickoffStartTime,
+    restart: doc.restart,
+    sentOff: doc.sentOff,
+    matchTime: doc.matchTime,
+    half: doc.half,
+    sidesSwapped: doc.sidesSwapped,
+    formations: doc.formations,
+    controllers: doc.controllers,
+    tournament: doc.tournament,
   };
 }
 
 /**
- * List all active games
+ * List all active games. Games with a spectatorDelay are summarized once
+ * they start, so the list can't be polled for live positions.
  */
-export async function listActiveGames(): Promise<GameState[]> {
-  await dbConnect();
+export async function listActiveGames(): Promise<GameListing[]> {
+  const games = await getGameStore().list(['waiting', 'countdown', 'kickoff', 'playing'], 50);
+
+  return games.map(game => (game.config.spectatorDelay ?? 0) > 0 && game.status !== 'waiting'
+    ? summarizeGame(game)
+    : sanitizeGameState(game));
+}
 
-  const games = await GameStateModel.find({
-    status: { $in: ['waiting', 'countdown', 'playing'] }
-  }).sort({ createdAt: -1 }).limit(50);
+function summarizeGame(doc: GameState): GameListing {
+  const { teamA, teamB, ball, restart, sentOff, ...rest } = sanitizeGameState(doc);
+  const roster = (players: Player[]): RosterEntry[] =>
+    players.map(({ id, name, team, role, handle, bot, slot }) => ({ id, name, team, role, handle, bot, slot }));
 
-  return games.map(sanitizeGameState);
+  return { ...rest, teamA: roster(teamA), teamB: roster(teamB) };
 }
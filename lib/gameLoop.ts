@@ -0,0 +1,191 @@
+import { GAME_CONFIG, GameState, GameEvent, ActionResult } from "@/types/game";
+import { getGameStore } from "./gameStore";
+import { advance, applyActions } from "./engine";
+import { claimPendingActions, resolveActions } from "./actionQueue";
+import { recordEvents } from "./eventLog";
+import { recordCareers } from "./profiles";
+import { recordRatings } from "./ratings";
+import { recordTournamentResult } from "./tournaments";
+
+/**
+ * Server-authoritative game loop.
+ *
+ * Owns every game that is counting down or in play, steps them at
+ * SIMULATION_STEP and persists snapshots every SNAPSHOT_INTERVAL.
+ * Physics no longer depends on HTTP traffic: routes read the snapshot
+ * and queue actions (see actionQueue.ts).
+ *
+ * Start it in-process with GAME_LOOP=in-process (see instrumentation.ts)
+ * or as a separate Node process with `npm run worker` and GAME_LOOP=worker.
+ * Only one loop should run per database.
+ */
+
+interface LoopGame {
+  state: GameState;
+  lastSnapshot: number;
+  persistedVersion: number; // version of the last snapshot we wrote
+  events: GameEvent[]; // produced since that snapshot, recorded with the next one
+}
+
+interface LoopState {
+  running: boolean;
+  ticking: boolean;
+  timer: NodeJS.Timeout | null;
+  lastRefresh: number;
+  games: Map<string, LoopGame>;
+}
+
+/**
+ * Global is used here so hot reloads in development don't start a second loop
+ */
+let loop: LoopState = (global as any).gameLoop;
+
+if (!loop) {
+  loop = (global as any).gameLoop = {
+    running: false,
+    ticking: false,
+    timer: null,
+    lastRefresh: 0,
+    games: new Map(),
+  };
+}
+
+export async function startGameLoop() {
+  if (loop.running) return;
+
+  loop.running = true;
+  loop.timer = setInterval(() => {
+    void tick();
+  }, GAME_CONFIG.SIMULATION_STEP);
+
+  console.log(`Game loop started, stepping every ${GAME_CONFIG.SIMULATION_STEP}ms`);
+}
+
+export async function stopGameLoop() {
+  if (!loop.running) return;
+
+  loop.running = false;
+  if (loop.timer) {
+    clearInterval(loop.timer);
+    loop.timer = null;
+  }
+
+  // Flush the latest state of every game we own
+  await Promise.all([...loop.games.values()].map(persistSnapshot));
+  loop.games.clear();
+  loop.lastRefresh = 0;
+
+  console.log("Game loop stopped");
+}
+
+async function tick() {
+  // Skip this tick if the previous one is still waiting on the database;
+  // simulate() catches up on the elapsed steps next time
+  if (loop.ticking || !loop.running) return;
+  loop.ticking = true;
+
+  try {
+    const now = Date.now();
+
+    if (now - loop.lastRefresh >= GAME_CONFIG.LOOP_REFRESH_INTERVAL) {
+      await loadActiveGames();
+      loop.lastRefresh = now;
+    }
+
+    if (loop.games.size === 0) return;
+
+    const pending = await claimPendingActions([...loop.games.keys()]);
+    const results: Array<{ actionId: string; result: ActionResult | ActionResult[] }> = [];
+
+    for (const [gameId, entry] of loop.games) {
+      const advanced = advance(entry.state, now);
+      entry.state = advanced.state;
+      entry.events.push(...advanced.events);
+
+      let actionsApplied = false;
+      const gameResults: typeof results = [];
+      for (const queued of pending.filter(a => a.gameId === gameId)) {
+        // A batch is applied in one go, so its actions share this tick
+        const batch = Array.isArray(queued.action) ? queued.action : [queued.action];
+        const { state, results: applied, events } = applyActions(entry.state, batch, now);
+        entry.state = state;
+        entry.events.push(...events);
+        actionsApplied ||= applied.some(result => result.success);
+        gameResults.push({ actionId: queued.actionId, result: Array.isArray(queued.action) ? applied : applied[0] });
+      }
+
+      const finished = entry.state.status === 'finished';
+      let saved = true;
+      if (actionsApplied || finished || now - entry.lastSnapshot >= GAME_CONFIG.SNAPSHOT_INTERVAL) {
+        saved = await persistSnapshot(entry);
+      }
+
+      // The state these actions were applied to was discarded - none of them landed
+      for (const { actionId, result } of gameResults) {
+        results.push({ actionId, result: saved ? result : lostResult(result) });
+      }
+
+      if (finished) {
+        loop.games.delete(gameId);
+        console.log(`Game ${gameId} finished, released by game loop`);
+      }
+    }
+
+    await resolveActions(results);
+  } catch (error) {
+    console.error("Game loop tick failed:", error);
+  } finally {
+    loop.ticking = false;
+  }
+}
+
+/**
+ * Pick up games that joinGame has moved into countdown since the last scan
+ */
+async function loadActiveGames() {
+  const games = await getGameStore().list(['countdown', 'kickoff', 'playing'], 500);
+
+  for (const state of games) {
+    if (loop.games.has(state.gameId)) continue;
+    loop.games.set(state.gameId, { state, lastSnapshot: Date.now(), persistedVersion: state.version, events: [] });
+    console.log(`Game ${state.gameId} picked up by game loop (status: ${state.status})`);
+  }
+}
+
+const LOST: ActionResult = { success: false, lost: true, message: "Action lost to concurrent updates, please retry" };
+
+function lostResult(result: ActionResult | ActionResult[]): ActionResult | ActionResult[] {
+  return Array.isArray(result) ? result.map(() => LOST) : LOST;
+}
+
+/**
+ * Write the loop's state of a game. Returns false if someone else wrote it
+ * first, in which case the loop adopts their state and drops its own.
+ */
+async function persistSnapshot(entry: LoopGame): Promise<boolean> {
+  const store = getGameStore();
+  entry.lastSnapshot = Date.now();
+
+  const events = entry.events;
+  entry.events = [];
+
+  if (await store.updateIfVersion(entry.state, entry.persistedVersion)) {
+    entry.persistedVersion = entry.state.version;
+    await recordEvents(entry.state.gameId, entry.state.version, events);
+    await recordCareers(entry.state, events);
+    await recordRatings(entry.state, events);
+    await recordTournamentResult(entry.state, events);
+    return true;
+  }
+
+  // Someone else wrote this game (a second loop or a request-mode writer).
+  // Adopt the stored state rather than overwrite it; our unsaved events go
+  // with the state they described.
+  const latest = await store.load(entry.state.gameId);
+  console.warn(`Snapshot conflict on game ${entry.state.gameId}, reloaded version ${latest?.version}`);
+  if (latest) {
+    entry.state = latest;
+    entry.persistedVersion = latest.version;
+  }
+  return false;
+}
@@ -0,0 +1,164 @@
+import type { GameState, GameStatus, GameAction, GameEvent, ActionResult, PlayerRole, TeamId, PlayerProfile, ProfileMatch, CareerStats, Rating, RatingKind, Tournament, TournamentStatus } from "@/types/game";
+import { createMongoGameStore } from "./mongoGameStore";
+import { createMemoryGameStore } from "./memoryGameStore";
+
+/**
+ * Storage layer for games and queued actions.
+ *
+ * Everything above this layer works on plain GameState objects. Pick the
+ * implementation with GAME_STORE:
+ * - `mongo` (default): MongoDB via models/GameState.ts, models/GameAction.ts,
+ *   models/GameEvent.ts, models/PlayerProfile.ts, models/Rating.ts,
+ *   models/Tournament.ts and models/MatchTicket.ts
+ * - `memory`: process-local maps, for local dev, tests and offline tournaments.
+ *   State is lost on restart and can't be shared with a separate worker.
+ */
+
+export interface GameStore {
+  load(gameId: string): Promise<GameState | null>;
+  create(state: GameState): Promise<void>;
+  save(state: GameState): Promise<void>;
+  /** Save only if the stored version still equals `expectedVersion` */
+  updateIfVersion(state: GameState, expectedVersion: number): Promise<boolean>;
+  /** Newest first */
+  list(statuses: GameStatus[], limit?: number): Promise<GameState[]>;
+  /** Remove a game that never started (e.g. a matchmade game whose players couldn't all join) */
+  delete(gameId: string): Promise<void>;
+  actions: ActionStore;
+  events: EventStore;
+  profiles: ProfileStore;
+  ratings: RatingStore;
+  tournaments: TournamentStore;
+  matchmaking: MatchmakingStore;
+}
+
+// pending -> claimed (by a loop tick) -> processed
+// pending -> expired (caller gave up; never applied)
+export type QueuedActionStatus = 'pending' | 'claimed' | 'processed' | 'expired';
+
+export interface QueuedAction {
+  actionId: string;
+  gameId: string;
+  action: GameAction | GameAction[]; // an array is a batch, applied in one tick
+  status: QueuedActionStatus;
+  claimToken?: string;
+  result?: ActionResult | ActionResult[]; // an array for a batch, in the same order
+  createdAt: number;
+  processedAt?: number;
+}
+
+export interface ActionStore {
+  enqueue(queued: QueuedAction): Promise<void>;
+  get(actionId: string): Promise<QueuedAction | null>;
+  /** pending -> expired; false if the action was already claimed */
+  expire(actionId: string): Promise<boolean>;
+  /** Expire pending actions created before `staleBefore`, claim the rest, oldest first */
+  claim(gameIds: string[], staleBefore: number): Promise<QueuedAction[]>;
+  resolve(results: Array<{ actionId: string; result: ActionResult | ActionResult[] }>): Promise<void>;
+}
+
+/**
+ * Per-game match event log. Events are appended after the game write they
+ * belong to has succeeded, tagged with the version that write produced, and
+ * listed back in (version, append order) - so the log follows the order of
+ * writes even when two writers append at the same time.
+ */
+export interface EventStore {
+  append(gameId: string, version: number, events: GameEvent[]): Promise<void>;
+  list(gameId: string): Promise<GameEvent[]>;
+}
+
+/**
+ * Player profiles, keyed by handle. Finished matches are added with
+ * recordMatch, which is a no-op for a game the profile already counted, so
+ * two writers finishing the same match can't count it twice.
+ */
+export interface ProfileStore {
+  /** false if the handle is taken */
+  create(profile: PlayerProfile): Promise<boolean>;
+  get(handle: string): Promise<PlayerProfile | null>;
+  recordMatch(handle: string, match: ProfileMatch, totals: CareerStats): Promise<void>;
+}
+
+/**
+ * Profile and team composition ratings, keyed by rating id. Writes are
+ * conditional on the number of games the caller read, the same way game
+ * writes are conditional on version.
+ */
+export interface RatingStore {
+  get(ids: string[]): Promise<Rating[]>;
+  /** Save only if the stored rating still has `expectedGames` games (0 = doesn't exist yet) */
+  record(rating: Rating, expectedGames: number): Promise<boolean>;
+  /** Highest rated first, only ratings with at least `minGames` games */
+  list(kind: RatingKind, limit: number, minGames: number): Promise<Rating[]>;
+}
+
+/**
+ * Tournaments are written whole, conditional on `version`, like games
+ */
+export interface TournamentStore {
+  load(tournamentId: string): Promise<Tournament | null>;
+  create(tournament: Tournament): Promise<void>;
+  updateIfVersion(tournament: Tournament, expectedVersion: number): Promise<boolean>;
+  /** Newest first */
+  list(statuses: TournamentStatus[], limit?: number): Promise<Tournament[]>;
+}
+
+// waiting -> matching (claimed by a matchmaker) -> matched
+// matching -> waiting (not enough players yet, or the claim went stale)
+// waiting -> expired (owner stopped polling) | cancelled
+export type MatchTicketStatus = 'waiting' | 'matching' | 'matched' | 'expired' | 'cancelled';
+
+export interface MatchTicket {
+  ticketId: string;
+  playerName: string;
+  role?: PlayerRole;
+  playersPerTeam: number;
+  handle?: string;
+  rating?: number; // the profile's rating when the ticket was created
+  status: MatchTicketStatus;
+  claimToken?: string;
+  claimedAt?: number; // when a matchmaker moved it to 'matching'
+  createdAt: number;
+  lastSeenAt: number; // last enqueue/poll by the owner
+  gameId?: string;
+  playerId?: string;
+  playerToken?: string; // handed to the owner on their next poll
+  team?: TeamId;
+  matchedAt?: number;
+}
+
+export interface MatchmakingStore {
+  enqueue(ticket: MatchTicket): Promise<void>;
+  get(ticketId: string): Promise<MatchTicket | null>;
+  /** Record that the owner is still waiting */
+  touch(ticketId: string, now: number): Promise<void>;
+  /** waiting -> cancelled; false if the ticket is no longer waiting */
+  cancel(ticketId: string): Promise<boolean>;
+  /**
+   * Return tickets claimed before `claimedBefore` (their matchmaker died
+   * mid-match) to waiting, expire waiting tickets last seen before
+   * `staleBefore`, then claim the rest for this team size, oldest first
+   */
+  claim(playersPerTeam: number, staleBefore: number, claimedBefore: number): Promise<MatchTicket[]>;
+  /** Tickets waiting (or being matched) for this team size */
+  count(playersPerTeam: number): Promise<number>;
+  /** matching -> waiting */
+  release(ticketIds: string[]): Promise<void>;
+  resolve(matches: Array<{ ticketId: string; gameId: string; playerId: string; playerToken: string; team: TeamId }>): Promise<void>;
+}
+
+/**
+ * Global is used here so hot reloads in development keep the same store
+ * (and, for the memory store, the same data)
+ */
+let cached: GameStore | undefined = (global as any).gameStore;
+
+export function getGameStore(): GameStore {
+  if (!cached) {
+    cached = (global as any).gameStore = process.env.GAME_STORE === 'memory'
+      ? createMemoryGameStore()
+      : createMongoGameStore();
+  }
+  return cached;
+}
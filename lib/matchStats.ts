@@ -0,0 +1,72 @@
+import type { PublicGameState, PlayerStats, TeamStats, MatchStats, TeamId } from "@/types/game";
+import { getGameState } from "./gameLogic";
+
+/**
+ * Per-player match statistics with team totals.
+ * The engine keeps the counters on each Player; this only adds them up,
+ * including players who have been sent off.
+ */
+
+const STAT_KEYS: Array<keyof PlayerStats> = [
+  'goals', 'assists', 'passes', 'passesCompleted', 'interceptions',
+  'shots', 'shotsOnTarget', 'tackles', 'tacklesWon', 'tacklesLost',
+  'saves', 'fouls', 'possessionTime', 'distanceCovered',
+];
+
+export function buildMatchStats(state: PublicGameState): MatchStats {
+  const sentOff = state.sentOff ?? [];
+  const players = [...state.teamA, ...state.teamB, ...sentOff].map(p => ({
+    id: p.id,
+    name: p.name,
+    team: p.team,
+    role: p.role,
+    sentOff: sentOff.includes(p),
+    stats: withDefaults(p.stats),
+  }));
+
+  const totals = (team: TeamId): PlayerStats => {
+    const sum = withDefaults({});
+    for (const player of players.filter(p => p.team === team)) {
+      for (const key of STAT_KEYS) {
+        sum[key] += player.stats[key];
+      }
+    }
+    return sum;
+  };
+
+  const a = totals('A');
+  const b = totals('B');
+  const totalPossession = a.possessionTime + b.possessionTime;
+
+  const teamStats = (stats: PlayerStats): TeamStats => ({
+    ...stats,
+    passCompletion: stats.passes > 0 ? stats.passesCompleted / stats.passes : null,
+    possession: totalPossession > 0 ? stats.possessionTime / totalPossession : null,
+  });
+
+  return {
+    gameId: state.gameId,
+    status: state.status,
+    score: state.score,
+    matchTime: state.matchTime,
+    teams: { A: teamStats(a), B: teamStats(b) },
+    players,
+  };
+}
+
+/**
+ * Stats for a game, simulated up to now
+ */
+export async function getMatchStats(gameId: string): Promise<MatchStats | null> {
+  const state = await getGameState(gameId);
+  return state ? buildMatchStats(state) : null;
+}
+
+// Games saved before a counter existed don't have it
+function withDefaults(stats: Partial<PlayerStats>): PlayerStats {
+  const filled = {} as PlayerStats;
+  for (const key of STAT_KEYS) {
+    filled[key] = stats[key] ?? 0;
+  }
+  return filled;
+}
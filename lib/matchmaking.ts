@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from "uuid";
+import { GAME_CONFIG } from "@/types/game";
+import type { PlayerRole, TeamId } from "@/types/game";
+import { getGameStore, MatchTicket } from "./gameStore";
+import { createGame, joinGame } from "./gameLogic";
+import { getRating, ratingId } from "./ratings";
+import { forgetGame } from "./stateDelta";
+
+/**
+ * Matchmaking queue.
+ *
+ * An agent enqueues a ticket (name, optional role, team size, optional
+ * profile) and long-polls it. Every enqueue and poll also runs the
+ * matchmaker for that team size: it claims the waiting tickets, groups them
+ * into games of 2 x playersPerTeam, creates each game and joins every
+ * player, and writes the gameId, playerId and playerToken onto the tickets
+ * for their owners to pick up.
+ *
+ * Groups start from the longest-waiting ticket and take the tickets closest
+ * to it in rating (profiles' Elo ratings; anonymous players count as
+ * RATING_INITIAL), then split into two teams by a snake draft so both sides
+ * have a similar total. Tickets whose owner stopped polling expire, and
+ * tickets left claimed by a matchmaker that died mid-match go back to the
+ * queue after MATCHMAKING_CLAIM_TTL.
+ */
+
+export type MatchmakingResult =
+  | { success: true; status: 'waiting'; ticketId: string; waiting: number }
+  | { success: true; status: 'matched'; ticketId: string; gameId: string; playerId: string; playerToken: string; team: TeamId }
+  | { success: false; message: string };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Add a ticket to the queue and wait for a match. `handle` must already be
+ * authenticated.
+ */
+export async function enqueueForMatch(
+  playerName: string,
+  options: { role?: PlayerRole; playersPerTeam?: number; handle?: string } = {}
+): Promise<MatchmakingResult> {
+  const now = Date.now();
+  const rating = options.handle ? await getRating(ratingId('profile', [options.handle])) : null;
+
+  const ticket: MatchTicket = {
+    ticketId: uuidv4(),
+    playerName,
+    role: options.role,
+    playersPerTeam: options.playersPerTeam ?? GAME_CONFIG.MATCHMAKING_MAX_TEAM_SIZE,
+    handle: options.handle,
+    rating: rating?.rating,
+    status: 'waiting',
+    createdAt: now,
+    lastSeenAt: now,
+  };
+
+  await getGameStore().matchmaking.enqueue(ticket);
+  return waitForMatch(ticket.ticketId);
+}
+
+/**
+ * Long-poll a ticket: returns as soon as it is matched, or after
+ * MATCHMAKING_WAIT with status 'waiting' (poll again to keep the ticket alive)
+ */
+export async function waitForMatch(ticketId: string): Promise<MatchmakingResult> {
+  const store = getGameStore().matchmaking;
+  const deadline = Date.now() + GAME_CONFIG.MATCHMAKING_WAIT;
+
+  let ticket = await store.get(ticketId);
+  if (!ticket) return { success: false, message: "Ticket not found" };
+
+  if (ticket.status === 'waiting') {
+    await store.touch(ticketId, Date.now());
+    await runMatchmaker(ticket.playersPerTeam);
+  }
+
+  while (true) {
+    ticket = await store.get(ticketId);
+    if (!ticket) return { success: false, message: "Ticket not found" };
+
+    if (ticket.status === 'matched') {
+      return {
+        success: true,
+        status: 'matched',
+        ticketId,
+        gameId: ticket.gameId!,
+        playerId: ticket.playerId!,
+        playerToken: ticket.playerToken!,
+        team: ticket.team!,
+      };
+    }
+
+    if (ticket.status === 'expired') {
+      return { success: false, message: "Ticket expired, please enqueue again" };
+    }
+    if (ticket.status === 'cancelled') {
+      return { success: false, message: "Ticket was cancelled" };
+    }
+
+    if (Date.now() >= deadline) break;
+    await sleep(GAME_CONFIG.MATCHMAKING_POLL_INTERVAL);
+  }
+
+  const waiting = await store.count(ticket.playersPerTeam);
+  return { success: true, status: 'waiting', ticketId, waiting };
+}
+
+export async function cancelTicket(ticketId: string): Promise<{ success: boolean; message: string }> {
+  const store = getGameStore().matchmaking;
+  const ticket = await store.get(ticketId);
+  if (!ticket) return { success: false, message: "Ticket not found" };
+
+  if (await store.cancel(ticketId)) {
+    return { success: true, message: "Ticket cancelled" };
+  }
+  return ticket.status === 'matched'
+    ? { success: false, message: "Already matched - join the game or leave it" }
+    : { success: false, message: "Ticket is being matched, please try again" };
+}
+
+/**
+ * Group the waiting tickets for one team size into games
+ */
+export async function runMatchmaker(playersPerTeam: number) {
+  const store = getGameStore().matchmaking;
+  const now = Date.now();
+  const claimed = await store.claim(
+    playersPerTeam,
+    now - GAME_CONFIG.MATCHMAKING_TICKET_TTL,
+    now - GAME_CONFIG.MATCHMAKING_CLAIM_TTL
+  );
+  const groups = groupTickets(claimed, playersPerTeam * 2);
+
+  const grouped = new Set(groups.flat().map(ticket => ticket.ticketId));
+  const leftOver = claimed.filter(ticket => !grouped.has(ticket.ticketId));
+  await store.release(leftOver.map(ticket => ticket.ticketId));
+
+  for (const group of groups) {
+    try {
+      await startMatch(group, playersPerTeam);
+    } catch (error) {
+      console.error("Error starting a matchmade game:", error);
+      await store.release(group.map(ticket => ticket.ticketId));
+    }
+  }
+}
+
+const ratingOf = (ticket: MatchTicket) => ticket.rating ?? GAME_CONFIG.RATING_INITIAL;
+
+/**
+ * Take the oldest ticket and the tickets closest to it in rating, until there
+ * aren't enough left for a game. A profile can only be in a game once.
+ */
+function groupTickets(tickets: MatchTicket[], groupSize: number): MatchTicket[][] {
+  const remaining = [...tickets];
+  const groups: MatchTicket[][] = [];
+
+  while (remaining.length >= groupSize) {
+    const anchor = remaining[0];
+    const group = [anchor];
+    const handles = new Set(anchor.handle ? [anchor.handle] : []);
+
+    const candidates = remaining.slice(1)
+      .sort((a, b) => Math.abs(ratingOf(a) - ratingOf(anchor)) - Math.abs(ratingOf(b) - ratingOf(anchor)));
+    for (const ticket of candidates) {
+      if (group.length === groupSize) break;
+      if (ticket.handle && handles.has(ticket.handle)) continue;
+      group.push(ticket);
+      if (ticket.handle) handles.add(ticket.handle);
+    }
+
+    if (group.length < groupSize) break;
+    groups.push(group);
+    for (const ticket of group) remaining.splice(remaining.indexOf(ticket), 1);
+  }
+
+  return groups;
+}
+
+/**
+ * Snake draft by rating (A, B, B, A, A, B, ...) so the teams' totals stay close
+ */
+function splitTeams(group: MatchTicket[]): Array<{ ticket: MatchTicket; team: TeamId }> {
+  return [...group]
+    .sort((a, b) => ratingOf(b) - ratingOf(a))
+    .map((ticket, index) => ({ ticket, team: (index % 4 === 0 || index % 4 === 3 ? 'A' : 'B') as TeamId }));
+}
+
+/**
+ * Create the game and join the whole group. If a join fails the half-filled
+ * game is deleted, so it doesn't linger in the lobby with nobody to finish it.
+ */
+async function startMatch(group: MatchTicket[], playersPerTeam: number) {
+  const store = getGameStore();
+  const created = await createGame(null, { playersPerTeam });
+  if (!created.success || !created.gameId) {
+    throw new Error(created.message ?? "Failed to create game");
+  }
+  const gameId = created.gameId;
+
+  const matches = [];
+  try {
+    for (const { ticket, team } of splitTeams(group)) {
+      const joined = await joinGame(gameId, ticket.playerName, team, ticket.role, ticket.handle);
+      if (!joined.success) {
+        throw new Error(`Failed to join ${ticket.ticketId} to game ${gameId}: ${joined.message}`);
+      }
+      matches.push({ ticketId: ticket.ticketId, gameId, playerId: joined.playerId!, playerToken: joined.playerToken!, team });
+    }
+  } catch (error) {
+    await store.delete(gameId);
+    forgetGame(gameId);
+    throw error;
+  }
+
+  await store.matchmaking.resolve(matches);
+  console.log(`Matchmaking: started game ${gameId} for ${group.length} players`);
+}
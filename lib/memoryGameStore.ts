@@ -0,0 +1,289 @@
+import { GAME_CONFIG } from "@/types/game";
+import type { GameState, GameEvent, PlayerProfile, Rating, Tournament } from "@/types/game";
+import type { GameStore, ActionStore, EventStore, ProfileStore, RatingStore, TournamentStore, MatchmakingStore, MatchTicket, QueuedAction } from "./gameStore";
+
+/**
+ * In-memory GameStore (GAME_STORE=memory).
+ * Values are cloned on the way in and out so callers can mutate what they
+ * load without touching the stored copy - the same semantics as a database.
+ */
+export function createMemoryGameStore(): GameStore {
+  const games = new Map<string, GameState>();
+  const queue = new Map<string, QueuedAction>();
+  const eventLogs = new Map<string, Array<{ version: number; event: GameEvent }>>();
+  const playerProfiles = new Map<string, PlayerProfile>();
+  const storedRatings = new Map<string, Rating>();
+  const storedTournaments = new Map<string, Tournament>();
+  const tickets = new Map<string, MatchTicket>();
+
+  const actions: ActionStore = {
+    async enqueue(queued) {
+      queue.set(queued.actionId, structuredClone(queued));
+    },
+
+    async get(actionId) {
+      const queued = queue.get(actionId);
+      return queued ? structuredClone(queued) : null;
+    },
+
+    async expire(actionId) {
+      const queued = queue.get(actionId);
+      if (!queued || queued.status !== 'pending') return false;
+      queued.status = 'expired';
+      queued.processedAt = Date.now();
+      return true;
+    },
+
+    async claim(gameIds, staleBefore) {
+      const claimed: QueuedAction[] = [];
+
+      for (const queued of queue.values()) {
+        if (queued.status !== 'pending' || !gameIds.includes(queued.gameId)) continue;
+
+        if (queued.createdAt < staleBefore) {
+          queued.status = 'expired';
+          queued.processedAt = Date.now();
+        } else {
+          queued.status = 'claimed';
+          claimed.push(structuredClone(queued));
+        }
+      }
+
+      return claimed.sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    async resolve(results) {
+      const processedAt = Date.now();
+      for (const { actionId, result } of results) {
+        const queued = queue.get(actionId);
+        if (!queued) continue;
+        queued.status = 'processed';
+        queued.result = result;
+        queued.processedAt = processedAt;
+      }
+
+      // Processed actions are only kept until their caller has had time to read them
+      for (const [actionId, queued] of queue) {
+        if (queued.processedAt && processedAt - queued.processedAt > 60_000) {
+          queue.delete(actionId);
+        }
+      }
+    },
+  };
+
+  const events: EventStore = {
+    async append(gameId, version, appended) {
+      const log = eventLogs.get(gameId) ?? [];
+      log.push(...appended.map(event => ({ version, event: structuredClone(event) })));
+      eventLogs.set(gameId, log);
+    },
+
+    async list(gameId) {
+      // Array.prototype.sort is stable, so append order is kept within a version
+      return [...(eventLogs.get(gameId) ?? [])]
+        .sort((a, b) => a.version - b.version)
+        .map(({ event }) => structuredClone(event));
+    },
+  };
+
+  const profiles: ProfileStore = {
+    async create(profile) {
+      if (playerProfiles.has(profile.handle)) return false;
+      playerProfiles.set(profile.handle, structuredClone(profile));
+      return true;
+    },
+
+    async get(handle) {
+      const profile = playerProfiles.get(handle);
+      return profile ? structuredClone(profile) : null;
+    },
+
+    async recordMatch(handle, match, totals) {
+      const profile = playerProfiles.get(handle);
+      if (!profile || profile.matchIds.includes(match.gameId)) return;
+
+      for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+        profile.career[key] = (profile.career[key] ?? 0) + totals[key];
+      }
+      profile.matchIds.push(match.gameId);
+      profile.recentMatches = [structuredClone(match), ...profile.recentMatches].slice(0, GAME_CONFIG.PROFILE_RECENT_MATCHES);
+      profile.updatedAt = Date.now();
+    },
+  };
+
+  const ratings: RatingStore = {
+    async get(ids) {
+      return ids
+        .map(id => storedRatings.get(id))
+        .filter((rating): rating is Rating => !!rating)
+        .map(rating => structuredClone(rating));
+    },
+
+    async record(rating, expectedGames) {
+      if ((storedRatings.get(rating.id)?.games ?? 0) !== expectedGames) return false;
+      storedRatings.set(rating.id, structuredClone(rating));
+      return true;
+    },
+
+    async list(kind, limit, minGames) {
+      return [...storedRatings.values()]
+        .filter(rating => rating.kind === kind && rating.games >= minGames)
+        .sort((a, b) => b.rating - a.rating)
+        .slice(0, limit)
+        .map(rating => structuredClone(rating));
+    },
+  };
+
+  const tournaments: TournamentStore = {
+    async load(tournamentId) {
+      const tournament = storedTournaments.get(tournamentId);
+      return tournament ? structuredClone(tournament) : null;
+    },
+
+    async create(tournament) {
+      if (storedTournaments.has(tournament.tournamentId)) {
+        throw new Error(`Tournament ${tournament.tournamentId} already exists`);
+      }
+      storedTournaments.set(tournament.tournamentId, structuredClone(tournament));
+    },
+
+    async updateIfVersion(tournament, expectedVersion) {
+      const stored = storedTournaments.get(tournament.tournamentId);
+      if (!stored || stored.version !== expectedVersion) return false;
+      storedTournaments.set(tournament.tournamentId, structuredClone(tournament));
+      return true;
+    },
+
+    async list(statuses, limit = 50) {
+      return [...storedTournaments.values()]
+        .filter(tournament => statuses.includes(tournament.status))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, limit)
+        .map(tournament => structuredClone(tournament));
+    },
+  };
+
+  const matchmaking: MatchmakingStore = {
+    async enqueue(ticket) {
+      tickets.set(ticket.ticketId, structuredClone(ticket));
+    },
+
+    async get(ticketId) {
+      const ticket = tickets.get(ticketId);
+      return ticket ? structuredClone(ticket) : null;
+    },
+
+    async touch(ticketId, now) {
+      const ticket = tickets.get(ticketId);
+      if (ticket) ticket.lastSeenAt = now;
+    },
+
+    async cancel(ticketId) {
+      const ticket = tickets.get(ticketId);
+      if (!ticket || ticket.status !== 'waiting') return false;
+      ticket.status = 'cancelled';
+      return true;
+    },
+
+    async claim(playersPerTeam, staleBefore, claimedBefore) {
+      const claimed: MatchTicket[] = [];
+      const claimedAt = Date.now();
+
+      for (const ticket of tickets.values()) {
+        if (ticket.playersPerTeam !== playersPerTeam) continue;
+
+        if (ticket.status === 'matching' && (ticket.claimedAt ?? 0) < claimedBefore) {
+          ticket.status = 'waiting';
+        }
+        if (ticket.status !== 'waiting') continue;
+
+        if (ticket.lastSeenAt < staleBefore) {
+          ticket.status = 'expired';
+        } else {
+          ticket.status = 'matching';
+          ticket.claimedAt = claimedAt;
+          claimed.push(structuredClone(ticket));
+        }
+      }
+
+      return claimed.sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    async count(playersPerTeam) {
+      return [...tickets.values()].filter(ticket =>
+        ticket.playersPerTeam === playersPerTeam && (ticket.status === 'waiting' || ticket.status === 'matching')
+      ).length;
+    },
+
+    async release(ticketIds) {
+      for (const ticketId of ticketIds) {
+        const ticket = tickets.get(ticketId);
+        if (ticket?.status === 'matching') {
+          ticket.status = 'waiting';
+          delete ticket.claimedAt;
+        }
+      }
+    },
+
+    async resolve(matches) {
+      const matchedAt = Date.now();
+      for (const { ticketId, ...match } of matches) {
+        const ticket = tickets.get(ticketId);
+        if (!ticket) continue;
+        Object.assign(ticket, match, { status: 'matched', matchedAt });
+      }
+
+      // Finished tickets are only kept until their owner has had time to poll them
+      for (const [ticketId, ticket] of tickets) {
+        const finishedAt = ticket.matchedAt ?? ticket.lastSeenAt;
+        if (ticket.status !== 'waiting' && ticket.status !== 'matching' && matchedAt - finishedAt > 10 * 60_000) {
+          tickets.delete(ticketId);
+        }
+      }
+    },
+  };
+
+  return {
+    async load(gameId) {
+      const state = games.get(gameId);
+      return state ? structuredClone(state) : null;
+    },
+
+    async create(state) {
+      if (games.has(state.gameId)) {
+        throw new Error(`Game ${state.gameId} already exists`);
+      }
+      games.set(state.gameId, structuredClone(state));
+    },
+
+    async save(state) {
+      games.set(state.gameId, structuredClone(state));
+    },
+
+    async updateIfVersion(state, expectedVersion) {
+      const stored = games.get(state.gameId);
+      if (!stored || stored.version !== expectedVersion) return false;
+      games.set(state.gameId, structuredClone(state));
+      return true;
+    },
+
+    async list(statuses, limit = 50) {
+      return [...games.values()]
+        .filter(state => statuses.includes(state.status))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, limit)
+        .map(state => structuredClone(state));
+    },
+
+    async delete(gameId) {
+      games.delete(gameId);
+    },
+
+    actions,
+    events,
+    profiles,
+    ratings,
+    tournaments,
+    matchmaking,
+  };
+}
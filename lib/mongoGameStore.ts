@@ -0,0 +1,359 @@
+import { GAME_CONFIG } from "@/types/game";
+import type { GameState, GameStatus, PlayerProfile, Rating, Tournament } from "@/types/game";
+import { v4 as uuidv4 } from "uuid";
+import { dbConnect } from "./dbConnect";
+import { GameStateModel } from "@/models/GameState";
+import { GameActionModel } from "@/models/GameAction";
+import { GameEventModel } from "@/models/GameEvent";
+import { PlayerProfileModel } from "@/models/PlayerProfile";
+import { RatingModel } from "@/models/Rating";
+import { TournamentModel } from "@/models/Tournament";
+import { MatchTicketModel } from "@/models/MatchTicket";
+import type { GameStore, ActionStore, EventStore, ProfileStore, RatingStore, TournamentStore, MatchmakingStore, MatchTicket, QueuedAction } from "./gameStore";
+
+/**
+ * MongoDB-backed GameStore.
+ * Games are read lean and written back whole, so callers never deal with
+ * Mongoose documents or markModified().
+ */
+
+function toGameState(doc: any): GameState {
+  const { _id, __v, ...state } = doc;
+  return state as GameState;
+}
+
+function toQueuedAction(doc: any): QueuedAction {
+  const { _id, __v, ...queued } = doc;
+  return queued as QueuedAction;
+}
+
+function toProfile(doc: any): PlayerProfile {
+  const { _id, __v, ...profile } = doc;
+  return profile as PlayerProfile;
+}
+
+function toRating(doc: any): Rating {
+  const { _id, __v, ...rating } = doc;
+  return rating as Rating;
+}
+
+function toTournament(doc: any): Tournament {
+  const { _id, __v, ...tournament } = doc;
+  return tournament as Tournament;
+}
+
+function toMatchTicket(doc: any): MatchTicket {
+  const { _id, __v, ...ticket } = doc;
+  return ticket as MatchTicket;
+}
+
+export function createMongoGameStore(): GameStore {
+  const actions: ActionStore = {
+    async enqueue(queued) {
+      await dbConnect();
+      await GameActionModel.create({ _id: queued.actionId, ...queued });
+    },
+
+    async get(actionId) {
+      await dbConnect();
+      const doc = await GameActionModel.findOne({ actionId }).lean();
+      return doc ? toQueuedAction(doc) : null;
+    },
+
+    async expire(actionId) {
+      await dbConnect();
+      const expired = await GameActionModel.findOneAndUpdate(
+        { actionId, status: 'pending' },
+        { $set: { status: 'expired', processedAt: Date.now() } }
+      );
+      return expired !== null;
+    },
+
+    async claim(gameIds, staleBefore) {
+      if (gameIds.length === 0) return [];
+      await dbConnect();
+
+      const claimToken = uuidv4();
+
+      await GameActionModel.updateMany(
+        { gameId: { $in: gameIds }, status: 'pending', createdAt: { $lt: staleBefore } },
+        { $set: { status: 'expired', processedAt: Date.now() } }
+      );
+
+      await GameActionModel.updateMany(
+        { gameId: { $in: gameIds }, status: 'pending' },
+        { $set: { status: 'claimed', claimToken } }
+      );
+
+      const docs = await GameActionModel.find({ claimToken }).sort({ createdAt: 1 }).lean();
+      return docs.map(toQueuedAction);
+    },
+
+    async resolve(results) {
+      if (results.length === 0) return;
+      await dbConnect();
+
+      const processedAt = Date.now();
+      await GameActionModel.bulkWrite(results.map(({ actionId, result }) => ({
+        updateOne: {
+          filter: { actionId },
+          update: { $set: { status: 'processed', result, processedAt } },
+        },
+      })));
+    },
+  };
+
+  const events: EventStore = {
+    async append(gameId, version, appended) {
+      if (appended.length === 0) return;
+      await dbConnect();
+      await GameEventModel.insertMany(appended.map((event, index) => ({
+        gameId,
+        version,
+        index,
+        tick: event.tick,
+        type: event.type,
+        event,
+      })));
+    },
+
+    async list(gameId) {
+      await dbConnect();
+      const docs = await GameEventModel.find({ gameId }).sort({ version: 1, index: 1 }).lean();
+      return docs.map((doc: any) => doc.event);
+    },
+  };
+
+  const profiles: ProfileStore = {
+    async create(profile) {
+      await dbConnect();
+      try {
+        await PlayerProfileModel.create({ _id: profile.handle, ...profile });
+        return true;
+      } catch (error: any) {
+        if (error?.code === 11000) return false; // duplicate handle
+        throw error;
+      }
+    },
+
+    async get(handle) {
+      await dbConnect();
+      const doc = await PlayerProfileModel.findOne({ handle }).lean();
+      return doc ? toProfile(doc) : null;
+    },
+
+    async recordMatch(handle, match, totals) {
+      await dbConnect();
+
+      const inc: Record<string, number> = {};
+      for (const [key, value] of Object.entries(totals)) {
+        inc[`career.${key}`] = value;
+      }
+
+      // The matchIds filter makes this a no-op for a game that was already counted
+      await PlayerProfileModel.updateOne(
+        { handle, matchIds: { $ne: match.gameId } },
+        {
+          $inc: inc,
+          $push: {
+            matchIds: match.gameId,
+            recentMatches: { $each: [match], $position: 0, $slice: GAME_CONFIG.PROFILE_RECENT_MATCHES },
+          },
+          $set: { updatedAt: Date.now() },
+        }
+      );
+    },
+  };
+
+  const ratings: RatingStore = {
+    async get(ids) {
+      if (ids.length === 0) return [];
+      await dbConnect();
+      const docs = await RatingModel.find({ id: { $in: ids } }).lean();
+      return docs.map(toRating);
+    },
+
+    async record(rating, expectedGames) {
+      await dbConnect();
+      try {
+        // Upserting a first game collides with the _id of a rating someone
+        // else just created, which is the same lost race as a count mismatch
+        const result = await RatingModel.replaceOne(
+          { id: rating.id, games: expectedGames },
+          { _id: rating.id, ...rating },
+          { upsert: expectedGames === 0 }
+        );
+        return result.matchedCount === 1 || result.upsertedCount === 1;
+      } catch (error: any) {
+        if (error?.code === 11000) return false;
+        throw error;
+      }
+    },
+
+    async list(kind, limit, minGames) {
+      await dbConnect();
+      const docs = await RatingModel.find({ kind, games: { $gte: minGames } })
+        .sort({ rating: -1 })
+        .limit(limit)
+        .lean();
+      return docs.map(toRating);
+    },
+  };
+
+  const tournaments: TournamentStore = {
+    async load(tournamentId) {
+      await dbConnect();
+      const doc = await TournamentModel.findOne({ tournamentId }).lean();
+      return doc ? toTournament(doc) : null;
+    },
+
+    async create(tournament) {
+      await dbConnect();
+      await TournamentModel.create({ _id: tournament.tournamentId, ...tournament });
+    },
+
+    async updateIfVersion(tournament, expectedVersion) {
+      await dbConnect();
+      const result = await TournamentModel.replaceOne(
+        { tournamentId: tournament.tournamentId, version: expectedVersion },
+        { _id: tournament.tournamentId, ...tournament }
+      );
+      return result.matchedCount === 1;
+    },
+
+    async list(statuses, limit = 50) {
+      await dbConnect();
+      const docs = await TournamentModel.find({ status: { $in: statuses } })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean();
+      return docs.map(toTournament);
+    },
+  };
+
+  const matchmaking: MatchmakingStore = {
+    async enqueue(ticket) {
+      await dbConnect();
+      await MatchTicketModel.create({ _id: ticket.ticketId, ...ticket });
+    },
+
+    async get(ticketId) {
+      await dbConnect();
+      const doc = await MatchTicketModel.findOne({ ticketId }).lean();
+      return doc ? toMatchTicket(doc) : null;
+    },
+
+    async touch(ticketId, now) {
+      await dbConnect();
+      await MatchTicketModel.updateOne({ ticketId }, { $set: { lastSeenAt: now } });
+    },
+
+    async cancel(ticketId) {
+      await dbConnect();
+      const cancelled = await MatchTicketModel.findOneAndUpdate(
+        { ticketId, status: 'waiting' },
+        { $set: { status: 'cancelled' } }
+      );
+      return cancelled !== null;
+    },
+
+    async claim(playersPerTeam, staleBefore, claimedBefore) {
+      await dbConnect();
+
+      const claimToken = uuidv4();
+
+      await MatchTicketModel.updateMany(
+        { playersPerTeam, status: 'matching', claimedAt: { $not: { $gte: claimedBefore } } },
+        { $set: { status: 'waiting' }, $unset: { claimToken: 1, claimedAt: 1 } }
+      );
+
+      await MatchTicketModel.updateMany(
+        { playersPerTeam, status: 'waiting', lastSeenAt: { $lt: staleBefore } },
+        { $set: { status: 'expired' } }
+      );
+
+      await MatchTicketModel.updateMany(
+        { playersPerTeam, status: 'waiting' },
+        { $set: { status: 'matching', claimToken, claimedAt: Date.now() } }
+      );
+
+      const docs = await MatchTicketModel.find({ claimToken }).sort({ createdAt: 1 }).lean();
+      return docs.map(toMatchTicket);
+    },
+
+    async count(playersPerTeam) {
+      await dbConnect();
+      return MatchTicketModel.countDocuments({ playersPerTeam, status: { $in: ['waiting', 'matching'] } });
+    },
+
+    async release(ticketIds) {
+      if (ticketIds.length === 0) return;
+      await dbConnect();
+      await MatchTicketModel.updateMany(
+        { ticketId: { $in: ticketIds }, status: 'matching' },
+        { $set: { status: 'waiting' }, $unset: { claimToken: 1, claimedAt: 1 } }
+      );
+    },
+
+    async resolve(matches) {
+      if (matches.length === 0) return;
+      await dbConnect();
+
+      const matchedAt = Date.now();
+      await MatchTicketModel.bulkWrite(matches.map(({ ticketId, ...match }) => ({
+        updateOne: {
+          filter: { ticketId },
+          update: { $set: { ...match, status: 'matched', matchedAt } },
+        },
+      })));
+    },
+  };
+
+  return {
+    async load(gameId) {
+      await dbConnect();
+      const doc = await GameStateModel.findOne({ gameId }).lean();
+      return doc ? toGameState(doc) : null;
+    },
+
+    async create(state) {
+      await dbConnect();
+      await GameStateModel.create({ _id: state.gameId, ...state });
+    },
+
+    async save(state) {
+      await dbConnect();
+      await GameStateModel.replaceOne({ gameId: state.gameId }, { _id: state.gameId, ...state });
+    },
+
+    async updateIfVersion(state, expectedVersion) {
+      await dbConnect();
+      const result = await GameStateModel.replaceOne(
+        { gameId: state.gameId, version: expectedVersion },
+        { _id: state.gameId, ...state }
+      );
+      return result.matchedCount === 1;
+    },
+
+    async list(statuses: GameStatus[], limit = 50) {
+      await dbConnect();
+      const docs = await GameStateModel.find({ status: { $in: statuses } })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean();
+      return docs.map(toGameState);
+    },
+
+    async delete(gameId) {
+      await dbConnect();
+      await GameStateModel.deleteOne({ gameId });
+    },
+
+    actions,
+    events,
+    profiles,
+    ratings,
+    tournaments,
+    matchmaking,
+  };
+}
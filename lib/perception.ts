@@ -1,12 +1,12 @@
-import { GameState, Player, PerceptionData, PlayerPerception, BallPerception, GoalPerception, ActionRecommendation, Position, GAME_CONFIG } from "@/types/game";
-import { distance } from "./gameLogic";
+import { PublicGameState, Player, PerceptionData, TeamPerception, TeamId, PlayerPerception, BallPerception, GoalPerception, ActionRecommendation, Position, GAME_CONFIG, RESTART_NAMES } from "@/types/game";
+import { distance, attackingGoalX, defendingGoalX, inPenaltyArea, isOffside, saveProbability, homePosition } from "./engine";
 
 /**
  * TECHNICAL IMPROVEMENT #3: Enhanced perception system
  * Provides contextual awareness for LLM-based agents
  */
 
-export function generatePerception(gameState: GameState, playerId: string): PerceptionData | null {
+export function generatePerception(gameState: PublicGameState, playerId: string): PerceptionData | null {
   const allPlayers = [...gameState.teamA, ...gameState.teamB];
   const player = allPlayers.find(p => p.id === playerId);
   
@@ -40,6 +40,7 @@ export function generatePerception(gameState: GameState, playerId: string): Perc
     const dist = distance(player.position, t.position);
     const canPassTo = player.hasBall && !hasOpponentInPath(player.position, t.position, opponents);
     const isOpen = !opponents.some(opp => distance(opp.position, t.position) < 100);
+    const offside = gameState.config.offside ? isOffside(gameState, t) : undefined;
 
     return {
       id: t.id,
@@ -48,6 +49,8 @@ export function generatePerception(gameState: GameState, playerId: string): Perc
       position: t.position,
       distanceFromYou: dist,
       hasBall: t.hasBall,
+      yellowCards: t.yellowCards ?? 0,
+      offside,
       canPassTo,
       isOpen,
     };
@@ -61,11 +64,13 @@ export function generatePerception(gameState: GameState, playerId: string): Perc
     position: opp.position,
     distanceFromYou: distance(player.position, opp.position),
     hasBall: opp.hasBall,
+    yellowCards: opp.yellowCards ?? 0,
   }));
 
   // Goal perception
-  const ownGoalX = player.team === 'A' ? 0 : GAME_CONFIG.FIELD_WIDTH;
-  const opponentGoalX = player.team === 'A' ? GAME_CONFIG.FIELD_WIDTH : 0;
+  // Ends swap at half-time
+  const ownGoalX = defendingGoalX(gameState, player.team);
+  const opponentGoalX = attackingGoalX(gameState, player.team);
   const goalY = GAME_CONFIG.FIELD_HEIGHT / 2;
 
   const ownGoal: GoalPerception = {
@@ -80,6 +85,25 @@ export function generatePerception(gameState: GameState, playerId: string): Perc
     angle: calculateAngleToGoal(player.position, opponentGoalX, goalY),
   };
 
+  // Goalkeepers: can they get to the loose ball, and how likely are they to hold it
+  const save = player.role === 'goalkeeper'
+    ? {
+        inPenaltyArea: inPenaltyArea(gameState, player.team, player.position),
+        canReach: !gameState.ball.possessionPlayerId && ballDist <= GAME_CONFIG.SAVE_DISTANCE,
+        chance: saveProbability(player.position, gameState.ball),
+      }
+    : undefined;
+
+  // Ball out of play - who puts it back in
+  const restart = gameState.restart
+    ? {
+        type: gameState.restart.type,
+        yourTeam: gameState.restart.team === player.team,
+        youTakeIt: gameState.restart.takerId === playerId,
+        position: gameState.restart.position,
+      }
+    : undefined;
+
   // Generate recommendations
   const recommendations = generateRecommendations(
     player,
@@ -87,11 +111,13 @@ export function generatePerception(gameState: GameState, playerId: string): Perc
     teammatePerceptions,
     opponentPerceptions,
     opponentGoal,
-    gameState
+    gameState,
+    save
   );
 
   return {
     yourPlayer: player,
+    home: homePosition(gameState, player, (player.team === 'A' ? gameState.teamA : gameState.teamB).indexOf(player)),
     ball: ballPerception,
     teammates: teammatePerceptions,
     opponents: opponentPerceptions,
@@ -104,10 +130,61 @@ export function generatePerception(gameState: GameState, playerId: string): Perc
       height: GAME_CONFIG.FIELD_HEIGHT,
     },
     recommendations,
+    discipline: {
+      fouls: player.stats.fouls ?? 0,
+      yellowCards: player.yellowCards ?? 0,
+      onYellow: (player.yellowCards ?? 0) >= 1,
+      sentOff: (gameState.sentOff ?? []).map(p => ({ id: p.id, name: p.name, team: p.team })),
+    },
+    save,
+    restart,
+    gameState: {
+      status: gameState.status,
+      score: gameState.score,
+      timeElapsed: gameState.startedAt ? Date.now() - gameState.startedAt : undefined,
+      timeRemaining: gameState.config.matchDuration
+        ? Math.max(0, gameState.config.matchDuration - gameState.matchTime)
+        : undefined,
+      half: gameState.half,
+      kickoffTeam: gameState.kickoffTeam,
+    },
+  };
+}
+
+/**
+ * Perception for a whole side, as a team controller sees it: each player's
+ * own perception keyed by playerId, with the ball and match situation once
+ * for the team
+ */
+export function generateTeamPerception(gameState: PublicGameState, team: TeamId): TeamPerception {
+  const roster = team === 'A' ? gameState.teamA : gameState.teamB;
+  const carrier = [...gameState.teamA, ...gameState.teamB].find(p => p.id === gameState.ball.possessionPlayerId);
+
+  const players: TeamPerception['players'] = {};
+  for (const player of roster) {
+    const perception = generatePerception(gameState, player.id);
+    if (perception) players[player.id] = perception;
+  }
+
+  return {
+    team,
+    controller: gameState.controllers?.[team]?.name,
+    ball: {
+      position: gameState.ball.position,
+      velocity: gameState.ball.velocity,
+      possession: !carrier ? 'free' : carrier.team === team ? 'team' : 'opponent',
+      carrierId: carrier?.id,
+    },
+    players,
     gameState: {
       status: gameState.status,
       score: gameState.score,
       timeElapsed: gameState.startedAt ? Date.now() - gameState.startedAt : undefined,
+      timeRemaining: gameState.config.matchDuration
+        ? Math.max(0, gameState.config.matchDuration - gameState.matchTime)
+        : undefined,
+      half: gameState.half,
+      kickoffTeam: gameState.kickoffTeam,
     },
   };
 }
@@ -146,8 +223,107 @@ function generateRecommendations(
   teammates: PlayerPerception[],
   opponents: PlayerPerception[],
   opponentGoal: GoalPerception,
-  gameState: GameState
+  gameState: PublicGameState,
+  save: PerceptionData['save']
 ): ActionRecommendation {
+  // Kickoff: nobody may cross the halfway line until the kicker plays the ball
+  if (gameState.status === 'kickoff') {
+    if (ball.possession === 'you') {
+      const nearest = teammates
+        .filter(t => t.canPassTo)
+        .sort((a, b) => a.distanceFromYou - b.distanceFromYou)[0];
+
+      if (nearest) {
+        return {
+          action: 'pass',
+          reason: 'Take the kickoff with a pass to a teammate',
+          priority: 'high',
+          passTargets: [{ playerId: nearest.id, playerName: nearest.name, reason: `${nearest.name} is the closest teammate` }],
+        };
+      }
+
+      return {
+        action: 'shoot',
+        reason: 'Take the kickoff - nobody to pass to, so go for goal',
+        priority: 'high',
+      };
+    }
+
+    return {
+      action: 'wait',
+      reason: gameState.kickoffTeam === player.team
+        ? 'Your team is kicking off - stay in your own half until the ball is played'
+        : 'The opponents are kicking off - stay in your own half until the ball is played',
+      priority: 'low',
+    };
+  }
+
+  // Set pieces: only the taker can play the ball, and not by moving
+  if (gameState.restart) {
+    const name = RESTART_NAMES[gameState.restart.type];
+
+    if (gameState.restart.takerId === player.id) {
+      // Penalties and free kicks with a clear sight of goal are shots
+      if (gameState.restart.type === 'penalty' ||
+          (gameState.restart.type === 'freeKick' && opponentGoal.clearShot && opponentGoal.distanceFromYou < 400)) {
+        return {
+          action: 'shoot',
+          reason: `Shoot from the ${name}`,
+          priority: 'high',
+        };
+      }
+
+      const nearest = teammates
+        .filter(t => t.canPassTo)
+        .sort((a, b) => a.distanceFromYou - b.distanceFromYou)[0];
+
+      if (nearest) {
+        return {
+          action: 'pass',
+          reason: `Take the ${name} with a pass to a teammate`,
+          priority: 'high',
+          passTargets: [{ playerId: nearest.id, playerName: nearest.name, reason: `${nearest.name} is the closest teammate` }],
+        };
+      }
+
+      if (gameState.restart.type !== 'throwIn' && gameState.restart.type !== 'indirectFreeKick') {
+        return {
+          action: 'shoot',
+          reason: `Take the ${name} - nobody to pass to, so kick it long`,
+          priority: 'high',
+        };
+      }
+
+      return {
+        action: 'wait',
+        reason: `Take the ${name} once a teammate is free to receive it`,
+        priority: 'medium',
+      };
+    }
+
+    if (gameState.restart.team === player.team) {
+      return {
+        action: 'move',
+        reason: `Get free near the ${name} to receive the ball`,
+        priority: 'medium',
+        moveTarget: {
+          x: gameState.restart.position.x + (opponentGoal.position.x > gameState.restart.position.x ? 100 : -100),
+          y: GAME_CONFIG.FIELD_HEIGHT / 2,
+        },
+      };
+    }
+
+    return {
+      action: 'move',
+      reason: `The opponents have a ${name} - mark the space in front of the ball`,
+      priority: 'medium',
+      moveTarget: {
+        x: (gameState.restart.position.x + defendingGoalX(gameState, player.team)) / 2,
+        y: GAME_CONFIG.FIELD_HEIGHT / 2,
+      },
+    };
+  }
+
   // If player has the ball
   if (ball.possession === 'you') {
     // Check if clear shot at goal
@@ -161,7 +337,7 @@ function generateRecommendations(
 
     // Find open teammates for passing
     const openTeammates = teammates
-      .filter(t => t.canPassTo && t.isOpen)
+      .filter(t => t.canPassTo && t.isOpen && !t.offside)
       .sort((a, b) => {
         // Prioritize teammates closer to goal
         const aDistToGoal = distance(a.position, opponentGoal.position);
@@ -196,6 +372,19 @@ function generateRecommendations(
 
   // If teammate has the ball
   if (ball.possession === 'teammate') {
+    // Step back onside before the pass comes, or it goes to the opponents
+    if (gameState.config.offside && isOffside(gameState, player)) {
+      return {
+        action: 'move',
+        reason: 'You are offside - drop back level with the second-last defender before the pass',
+        priority: 'high',
+        moveTarget: {
+          x: player.position.x + (opponentGoal.position.x > player.position.x ? -60 : 60),
+          y: player.position.y,
+        },
+      };
+    }
+
     // Check if you're in a good position
     const nearOpponents = opponents.filter(opp => opp.distanceFromYou < 100);
     if (nearOpponents.length === 0) {
@@ -220,6 +409,14 @@ function generateRecommendations(
   if (ball.possession === 'opponent') {
     const ballCarrier = opponents.find(opp => opp.hasBall);
     if (ballCarrier && ballCarrier.distanceFromYou < GAME_CONFIG.TACKLE_DISTANCE + 20) {
+      // A missed tackle can be a foul - on a yellow, a booking means a sending-off
+      if ((player.yellowCards ?? 0) >= 1) {
+        return {
+          action: 'tackle',
+          reason: 'You can tackle the ball carrier, but you\'re on a yellow card - go in from the front, not from behind',
+          priority: 'medium',
+        };
+      }
       return {
         action: 'tackle',
         reason: 'You\'re close enough to tackle the opponent with the ball',
@@ -238,6 +435,15 @@ function generateRecommendations(
   }
 
   // Ball is free
+  // Keeper in the box with the ball in reach - try to catch it
+  if (save?.inPenaltyArea && save.canReach) {
+    return {
+      action: 'save',
+      reason: `The ball is within reach - ${Math.round(save.chance * 100)}% chance to catch it`,
+      priority: 'high',
+    };
+  }
+
   if (ball.distanceFromYou < 100) {
     return {
       action: 'move',
@@ -250,7 +456,7 @@ function generateRecommendations(
     let targetX: number;
     if (player.role === 'goalkeeper' || player.role === 'defender') {
       // Stay closer to own goal
-      targetX = player.team === 'A' ? 200 : GAME_CONFIG.FIELD_WIDTH - 200;
+      targetX = defendingGoalX(gameState, player.team) === 0 ? 200 : GAME_CONFIG.FIELD_WIDTH - 200;
     } else {
       // Move towards midfield
       targetX = GAME_CONFIG.FIELD_WIDTH / 2;
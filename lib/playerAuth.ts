@@ -0,0 +1,188 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { GameState, TeamId } from "@/types/game";
+import { getGameStore } from "./gameStore";
+
+/**
+ * Per-player secret tokens for agent actions.
+ *
+ * createGame and joinGame hand the new player a random token exactly once.
+ * The game only keeps its SHA-256 hash in `playerTokens`, and that map never
+ * leaves the server, so knowing a playerId (which is public) isn't enough to
+ * act for that player.
+ *
+ * A team controller (joinAsTeamController) gets one token for its whole
+ * side instead, kept the same way in `controllerTokens`. It is accepted
+ * wherever a playerToken is, for any player on that side.
+ */
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Create a token for `playerId`, store its hash on the game and return the token
+ */
+export function issuePlayerToken(game: GameState, playerId: string): string {
+  const token = randomBytes(24).toString("hex");
+  game.playerTokens = { ...game.playerTokens, [playerId]: hashToken(token) };
+  return token;
+}
+
+/**
+ * Create the controller token for side `team`, store its hash on the game and return the token
+ */
+export function issueControllerToken(game: GameState, team: TeamId): string {
+  const token = randomBytes(24).toString("hex");
+  game.controllerTokens = { ...game.controllerTokens, [team]: hashToken(token) };
+  return token;
+}
+
+function matchesHash(token: string, expected: unknown): boolean {
+  if (typeof expected !== "string" || !expected) return false;
+  const actual = Buffer.from(hashToken(token), "hex");
+  const stored = Buffer.from(expected, "hex");
+  return stored.length === actual.length && timingSafeEqual(actual, stored);
+}
+
+// Only the map's own entries: ids like "__proto__" or "constructor" come
+// straight from requests and must not reach Object.prototype
+function storedHash(hashes: Record<string, string> | undefined, key: string): unknown {
+  return hashes && Object.prototype.hasOwnProperty.call(hashes, key) ? hashes[key] : undefined;
+}
+
+export function verifyControllerToken(game: GameState, team: TeamId, token: string): boolean {
+  return matchesHash(token, storedHash(game.controllerTokens, team));
+}
+
+export function verifyPlayerToken(game: GameState, playerId: string, token: string): boolean {
+  if (matchesHash(token, storedHash(game.playerTokens, playerId))) return true;
+
+  // A controlled side's players answer to their controller's token
+  const player = [...game.teamA, ...game.teamB].find(p => p.id === playerId);
+  return !!player && verifyControllerToken(game, player.team, token);
+}
+
+/**
+ * Check that the caller holds `playerId`'s token before an action route acts for them
+ */
+export async function authenticatePlayer(
+  gameId: string,
+  playerId: string,
+  token: unknown
+): Promise<{ success: true } | { success: false; status: 401 | 403 | 404; message: string }> {
+  if (typeof token !== "string" || !token) {
+    return { success: false, status: 401, message: "playerToken is required" };
+  }
+
+  const game = await getGameStore().load(gameId);
+  if (!game) {
+    return { success: false, status: 404, message: "Game not found" };
+  }
+
+  if (!verifyPlayerToken(game, playerId, token)) {
+    return { success: false, status: 403, message: "Invalid player token" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * authenticatePlayer for several players against one load of the game. The
+ * players must all be on one side, so a batch can never act for both teams.
+ * On failure `index` is the first credential that didn't check out.
+ */
+export async function authenticatePlayers(
+  gameId: string,
+  credentials: Array<{ playerId: string; token: unknown }>
+): Promise<{ success: true } | { success: false; status: 401 | 403 | 404; message: string; index: number }> {
+  const missing = credentials.findIndex(({ token }) => typeof token !== "string" || !token);
+  if (missing !== -1) {
+    return { success: false, status: 401, message: "playerToken is required", index: missing };
+  }
+
+  const game = await getGameStore().load(gameId);
+  if (!game) {
+    return { success: false, status: 404, message: "Game not found", index: 0 };
+  }
+
+  const invalid = credentials.findIndex(({ playerId, token }) => !verifyPlayerToken(game, playerId, token as string));
+  if (invalid !== -1) {
+    return { success: false, status: 403, message: "Invalid player token", index: invalid };
+  }
+
+  const players = [...game.teamA, ...game.teamB];
+  const teams = credentials.map(({ playerId }) => players.find(p => p.id === playerId)?.team);
+  const otherSide = teams.findIndex(team => team !== teams[0]);
+  if (otherSide !== -1) {
+    return { success: false, status: 403, message: "All players in a batch must be on the same side", index: otherSide };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Check that the caller holds the controller token of side `team`
+ */
+export async function authenticateController(
+  gameId: string,
+  team: TeamId,
+  token: unknown
+): Promise<{ success: true } | { success: false; status: 401 | 403 | 404; message: string }> {
+  if (typeof token !== "string" || !token) {
+    return { success: false, status: 401, message: "controllerToken is required" };
+  }
+
+  const game = await getGameStore().load(gameId);
+  if (!game) {
+    return { success: false, status: 404, message: "Game not found" };
+  }
+
+  if (!verifyControllerToken(game, team, token)) {
+    return { success: false, status: 403, message: "Invalid controller token" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * While a game with a `spectatorDelay` is live, only its players may read it
+ * undelayed (state, stream, perception, stats, replay); everyone else has to
+ * watch /spectate. Callers pass `playerId` and `playerToken`, or `team` and
+ * `controllerToken`, as query parameters. Other games are open to anyone.
+ */
+export async function authenticateLiveViewer(
+  gameId: string,
+  searchParams: URLSearchParams
+): Promise<{ success: true } | { success: false; status: 401 | 403 | 404; message: string }> {
+  const game = await getGameStore().load(gameId);
+  if (!game) {
+    return { success: false, status: 404, message: "Game not found" };
+  }
+
+  if (!((game.config.spectatorDelay ?? 0) > 0) || game.status === 'finished') {
+    return { success: true };
+  }
+
+  const playerId = searchParams.get("playerId");
+  const playerToken = searchParams.get("playerToken");
+  const team = searchParams.get("team");
+  const controllerToken = searchParams.get("controllerToken");
+
+  if (playerId && playerToken) {
+    return verifyPlayerToken(game, playerId, playerToken)
+      ? { success: true }
+      : { success: false, status: 403, message: "Invalid player token" };
+  }
+
+  if ((team === 'A' || team === 'B') && controllerToken) {
+    return verifyControllerToken(game, team, controllerToken)
+      ? { success: true }
+      : { success: false, status: 403, message: "Invalid controller token" };
+  }
+
+  return {
+    success: false,
+    status: 401,
+    message: "This game delays spectators - pass playerId and playerToken (or team and controllerToken), or watch /spectate",
+  };
+}
@@ -0,0 +1,174 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import type { GameState, GameEvent, PlayerProfile, PublicPlayerProfile, ProfileMatch, CareerStats, Player } from "@/types/game";
+import { getGameStore } from "./gameStore";
+import { hashToken } from "./playerAuth";
+
+/**
+ * Persistent player profiles.
+ *
+ * A profile is a stable handle plus career totals. Creating one hands out a
+ * secret profileToken (only its hash is stored); createGame/joinGame take the
+ * handle and token to link the new player to the profile, and when the match
+ * finishes each linked player's stats are added to their career.
+ */
+
+const HANDLE_PATTERN = /^[a-z0-9_-]{3,32}$/;
+
+export function sanitizeProfile(profile: PlayerProfile): PublicPlayerProfile {
+  const { tokenHash, matchIds, ...rest } = profile;
+  return rest;
+}
+
+/**
+ * Create a profile. Handles are lower-cased and must be 3-32 characters of
+ * a-z, 0-9, _ or -.
+ */
+export async function createProfile(
+  handle: string,
+  displayName?: string
+): Promise<{ success: boolean; profile?: PublicPlayerProfile; profileToken?: string; message?: string }> {
+  const normalized = handle.trim().toLowerCase();
+  if (!HANDLE_PATTERN.test(normalized)) {
+    return { success: false, message: "Handle must be 3-32 characters: a-z, 0-9, _ or -" };
+  }
+
+  const profileToken = randomBytes(24).toString("hex");
+  const now = Date.now();
+  const profile: PlayerProfile = {
+    handle: normalized,
+    displayName: displayName?.trim() || normalized,
+    tokenHash: hashToken(profileToken),
+    createdAt: now,
+    updatedAt: now,
+    career: emptyCareer(),
+    matchIds: [],
+    recentMatches: [],
+  };
+
+  if (!await getGameStore().profiles.create(profile)) {
+    return { success: false, message: "Handle is already taken" };
+  }
+
+  return { success: true, profile: sanitizeProfile(profile), profileToken };
+}
+
+export async function getProfile(handle: string): Promise<PublicPlayerProfile | null> {
+  const profile = await getGameStore().profiles.get(handle.trim().toLowerCase());
+  return profile ? sanitizeProfile(profile) : null;
+}
+
+/**
+ * Rates derived from the career totals, null until there is something to divide
+ */
+export function careerRates(career: CareerStats) {
+  const ratio = (a: number, b: number) => b > 0 ? a / b : null;
+  return {
+    winRate: ratio(career.wins, career.matches),
+    goalsPerMatch: ratio(career.goals, career.matches),
+    assistsPerMatch: ratio(career.assists, career.matches),
+    passCompletion: ratio(career.passesCompleted, career.passes),
+    shotAccuracy: ratio(career.shotsOnTarget, career.shots),
+    tackleSuccess: ratio(career.tacklesWon, career.tackles),
+  };
+}
+
+/**
+ * Check that the caller holds the profile's token before linking it to a player
+ */
+export async function authenticateProfile(
+  handle: unknown,
+  token: unknown
+): Promise<{ success: true; handle: string } | { success: false; status: 400 | 401 | 403 | 404; message: string }> {
+  if (typeof handle !== "string" || !handle) {
+    return { success: false, status: 400, message: "handle must be a string" };
+  }
+  if (typeof token !== "string" || !token) {
+    return { success: false, status: 401, message: "profileToken is required to use a profile" };
+  }
+
+  const profile = await getGameStore().profiles.get(handle.trim().toLowerCase());
+  if (!profile) {
+    return { success: false, status: 404, message: "Profile not found" };
+  }
+
+  if (!timingSafeEqual(Buffer.from(hashToken(token), "hex"), Buffer.from(profile.tokenHash, "hex"))) {
+    return { success: false, status: 403, message: "Invalid profile token" };
+  }
+
+  return { success: true, handle: profile.handle };
+}
+
+/**
+ * Roll a finished match into the careers of its linked players. Call after
+ * the write that finished the match succeeded; like the event log, a failure
+ * here is logged rather than failing that write.
+ */
+export async function recordCareers(state: GameState, events: GameEvent[]) {
+  if (!events.some(event => event.type === 'finish')) return;
+
+  const sentOff = state.sentOff ?? [];
+  const players = [...state.teamA, ...state.teamB, ...sentOff].filter(p => p.handle);
+
+  for (const player of players) {
+    const wasSentOff = sentOff.includes(player);
+    const result = !state.winner ? 'draw' : state.winner === player.team ? 'win' : 'loss';
+    const match: ProfileMatch = {
+      gameId: state.gameId,
+      finishedAt: state.finishedAt ?? Date.now(),
+      team: player.team,
+      result,
+      score: { ...state.score },
+      sentOff: wasSentOff,
+      stats: { ...player.stats },
+    };
+
+    try {
+      await getGameStore().profiles.recordMatch(player.handle!, match, matchTotals(player, state, result, wasSentOff));
+    } catch (error) {
+      console.error(`Failed to record game ${state.gameId} for profile ${player.handle}:`, error);
+    }
+  }
+}
+
+function matchTotals(player: Player, state: GameState, result: ProfileMatch['result'], sentOff: boolean): CareerStats {
+  const totals = emptyCareer();
+  for (const key of Object.keys(player.stats) as Array<keyof Player['stats']>) {
+    totals[key] = player.stats[key] ?? 0;
+  }
+
+  totals.matches = 1;
+  totals.wins = result === 'win' ? 1 : 0;
+  totals.draws = result === 'draw' ? 1 : 0;
+  totals.losses = result === 'loss' ? 1 : 0;
+  // A sending-off is the second yellow, so only the first counts as a yellow
+  totals.yellowCards = sentOff ? 1 : player.yellowCards ?? 0;
+  totals.redCards = sentOff ? 1 : 0;
+  totals.timePlayed = state.matchTime;
+  return totals;
+}
+
+function emptyCareer(): CareerStats {
+  return {
+    matches: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    yellowCards: 0,
+    redCards: 0,
+    timePlayed: 0,
+    goals: 0,
+    assists: 0,
+    passes: 0,
+    passesCompleted: 0,
+    interceptions: 0,
+    shots: 0,
+    shotsOnTarget: 0,
+    tackles: 0,
+    tacklesWon: 0,
+    tacklesLost: 0,
+    saves: 0,
+    fouls: 0,
+    possessionTime: 0,
+    distanceCovered: 0,
+  };
+}
@@ -0,0 +1,190 @@
+import { GAME_CONFIG } from "@/types/game";
+import type { GameState, GameEvent, Player, TeamId, Rating, RatingKind, PublicRating, ProfileMatch } from "@/types/game";
+import { getGameStore } from "./gameStore";
+
+/**
+ * Elo ratings for profiles and team compositions.
+ *
+ * When a match finishes, every player linked to a profile is rated against
+ * the other side, using the average rating of each side (anonymous players
+ * count as RATING_INITIAL). A side whose players all have profiles is also
+ * rated as a team composition, so a pair of agents that play well together
+ * shows up separately from how each does on their own.
+ */
+
+export function ratingId(kind: RatingKind, handles: string[]): string {
+  return `${kind}:${[...handles].sort().join('+')}`;
+}
+
+export function sanitizeRating(rating: Rating): PublicRating {
+  const { matchIds, ...rest } = rating;
+  return rest;
+}
+
+/**
+ * Expected score (0-1) for a side rated `rating` against `opponentRating`
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+export function kFactor(games: number): number {
+  return games < GAME_CONFIG.RATING_PROVISIONAL_GAMES ? GAME_CONFIG.RATING_K_PROVISIONAL : GAME_CONFIG.RATING_K;
+}
+
+function newRating(kind: RatingKind, handles: string[]): Rating {
+  return {
+    id: ratingId(kind, handles),
+    kind,
+    handles: [...handles].sort(),
+    rating: GAME_CONFIG.RATING_INITIAL,
+    peak: GAME_CONFIG.RATING_INITIAL,
+    games: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    updatedAt: Date.now(),
+    matchIds: [],
+    history: [],
+  };
+}
+
+const RESULT_SCORES: Record<ProfileMatch['result'], number> = { win: 1, draw: 0.5, loss: 0 };
+
+interface Side {
+  players: Player[];
+  handles: string[];
+  result: ProfileMatch['result'];
+  strength: number; // average profile rating
+  composition?: string; // team rating id, if every player has a profile
+}
+
+/**
+ * Rate a finished match. Call after the write that finished it succeeded;
+ * like the event log, a failure here is logged rather than failing that write.
+ */
+export async function recordRatings(state: GameState, events: GameEvent[]) {
+  if (!events.some(event => event.type === 'finish')) return;
+
+  try {
+    const store = getGameStore();
+    const everyone = [...state.teamA, ...state.teamB, ...(state.sentOff ?? [])];
+    const handles = everyone.filter(p => p.handle).map(p => p.handle!);
+    if (handles.length === 0) return;
+
+    const sides = {} as Record<TeamId, Side>;
+    for (const team of ['A', 'B'] as TeamId[]) {
+      const players = everyone.filter(p => p.team === team);
+      const sideHandles = players.filter(p => p.handle).map(p => p.handle!);
+      sides[team] = {
+        players,
+        handles: sideHandles,
+        result: !state.winner ? 'draw' : state.winner === team ? 'win' : 'loss',
+        strength: GAME_CONFIG.RATING_INITIAL,
+        composition: players.length > 0 && sideHandles.length === players.length ? ratingId('team', sideHandles) : undefined,
+      };
+    }
+
+    const compositions = [sides.A.composition, sides.B.composition].filter((id): id is string => !!id);
+    const current = new Map(
+      (await store.ratings.get([...handles.map(h => ratingId('profile', [h])), ...compositions]))
+        .map(rating => [rating.id, rating])
+    );
+    const ratingOf = (id: string) => current.get(id)?.rating ?? GAME_CONFIG.RATING_INITIAL;
+
+    for (const side of Object.values(sides)) {
+      if (side.players.length === 0) continue;
+      const total = side.players.reduce(
+        (sum, p) => sum + (p.handle ? ratingOf(ratingId('profile', [p.handle])) : GAME_CONFIG.RATING_INITIAL),
+        0
+      );
+      side.strength = total / side.players.length;
+    }
+
+    for (const team of ['A', 'B'] as TeamId[]) {
+      const side = sides[team];
+      const opponent = sides[team === 'A' ? 'B' : 'A'];
+
+      // Profiles move by how their side did against the side they faced
+      const profileDelta = (games: number) =>
+        kFactor(games) * (RESULT_SCORES[side.result] - expectedScore(side.strength, opponent.strength));
+      for (const handle of side.handles) {
+        await applyMatch(state, 'profile', [handle], side.result, opponent.strength, profileDelta);
+      }
+
+      if (side.composition) {
+        const opponentRating = opponent.composition ? ratingOf(opponent.composition) : opponent.strength;
+        await applyMatch(state, 'team', side.handles, side.result, opponentRating, (games, rating) =>
+          kFactor(games) * (RESULT_SCORES[side.result] - expectedScore(rating, opponentRating))
+        );
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to record ratings for game ${state.gameId}:`, error);
+  }
+}
+
+/**
+ * Add one match to a rating. The write is conditional on the number of games
+ * the rating had when it was read, so a concurrent update from another match
+ * makes us re-read and recompute rather than overwrite it.
+ */
+async function applyMatch(
+  state: GameState,
+  kind: RatingKind,
+  handles: string[],
+  result: ProfileMatch['result'],
+  opponentRating: number,
+  delta: (games: number, rating: number) => number
+) {
+  const store = getGameStore();
+  const id = ratingId(kind, handles);
+
+  for (let attempt = 0; attempt <= GAME_CONFIG.ACTION_MAX_RETRIES; attempt++) {
+    const [stored] = await store.ratings.get([id]);
+    const rating = stored ?? newRating(kind, handles);
+    if (rating.matchIds.includes(state.gameId)) return;
+
+    const before = rating.rating;
+    const after = Math.round((before + delta(rating.games, before)) * 10) / 10;
+    const next: Rating = {
+      ...rating,
+      rating: after,
+      peak: Math.max(rating.peak, after),
+      games: rating.games + 1,
+      wins: rating.wins + (result === 'win' ? 1 : 0),
+      draws: rating.draws + (result === 'draw' ? 1 : 0),
+      losses: rating.losses + (result === 'loss' ? 1 : 0),
+      updatedAt: Date.now(),
+      matchIds: [...rating.matchIds, state.gameId],
+      history: [
+        {
+          gameId: state.gameId,
+          at: state.finishedAt ?? Date.now(),
+          before,
+          after,
+          opponentRating: Math.round(opponentRating * 10) / 10,
+          result,
+        },
+        ...rating.history,
+      ].slice(0, GAME_CONFIG.RATING_HISTORY_LENGTH),
+    };
+
+    if (await store.ratings.record(next, rating.games)) return;
+  }
+
+  console.error(`Gave up rating ${id} for game ${state.gameId} after concurrent updates`);
+}
+
+/**
+ * Highest rated first
+ */
+export async function getLeaderboard(kind: RatingKind, limit = 50, minGames = 0): Promise<PublicRating[]> {
+  const ratings = await getGameStore().ratings.list(kind, limit, minGames);
+  return ratings.map(sanitizeRating);
+}
+
+export async function getRating(id: string): Promise<PublicRating | null> {
+  const [rating] = await getGameStore().ratings.get([id]);
+  return rating ? sanitizeRating(rating) : null;
+}
@@ -0,0 +1,23 @@
+/**
+ * Seeded PRNG (mulberry32) for the simulation engine.
+ *
+ * The generator state is a single uint32 stored on the game as `rngState`,
+ * so a match continues the same random sequence across saves and a replay
+ * from the same seed draws exactly the same numbers.
+ */
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Draw a number in [0, 1) and return it with the next generator state
+ */
+export function nextRandom(rngState: number): { value: number; rngState: number } {
+  const next = (rngState + 0x6D2B79F5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  return { value, rngState: next };
+}
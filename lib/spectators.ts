@@ -0,0 +1,234 @@
+import { v4 as uuidv4 } from "uuid";
+import { GAME_CONFIG } from "@/types/game";
+import { peekGameState } from "./gameLogic";
+
+/**
+ * Spectator broadcast.
+ *
+ * Every game being watched has one publisher in this process. It reads the
+ * game with peekGameState every SPECTATOR_TICK - never writing to the store -
+ * and fans each frame out to all of its subscribers, however many there are.
+ * Frames are held back for the game's `spectatorDelay` (or longer, if a
+ * viewer asks) so spectators can't relay live positions to the agents.
+ *
+ * The publisher stops when its last viewer leaves. Viewer counts are per
+ * server process.
+ */
+
+export type SpectatorEvent = 'init' | 'update' | 'viewers' | 'end' | 'error';
+
+interface Frame {
+  at: number;
+  json: string; // serialized once, sent to every subscriber
+  finished: boolean;
+}
+
+interface Subscriber {
+  id: string;
+  delay: number;
+  send: (event: SpectatorEvent | null, data: string) => void;
+  close: () => void;
+  lastSent: Frame | null;
+  lastWrite: number;
+  done: boolean;
+}
+
+interface Publisher {
+  gameId: string;
+  subscribers: Map<string, Subscriber>;
+  frames: Frame[]; // oldest first
+  timer: NodeJS.Timeout | null;
+  ticking: boolean;
+  finished: boolean;
+}
+
+/**
+ * Global is used here so hot reloads in development keep one publisher per game
+ */
+let publishers: Map<string, Publisher> = (global as any).spectatorPublishers;
+
+if (!publishers) {
+  publishers = (global as any).spectatorPublishers = new Map();
+}
+
+/**
+ * Start watching a game. `send` receives SSE-style events; `close` is called
+ * once the stream is over. Returns null if the game doesn't exist.
+ */
+export async function subscribe(
+  gameId: string,
+  send: Subscriber['send'],
+  close: Subscriber['close'],
+  requestedDelay = 0
+): Promise<{ subscriberId: string; delay: number } | null> {
+  const state = await peekGameState(gameId);
+  if (!state) return null;
+
+  // Viewers may watch further behind than the game requires, never closer
+  const delay = Math.min(
+    GAME_CONFIG.SPECTATOR_MAX_DELAY,
+    Math.max(state.config.spectatorDelay ?? 0, requestedDelay)
+  );
+
+  let publisher = publishers.get(gameId);
+  if (!publisher) {
+    publisher = { gameId, subscribers: new Map(), frames: [], timer: null, ticking: false, finished: false };
+    publishers.set(gameId, publisher);
+  }
+
+  const subscriber: Subscriber = {
+    id: uuidv4(),
+    delay,
+    send,
+    close,
+    lastSent: null,
+    lastWrite: Date.now(),
+    done: false,
+  };
+  publisher.subscribers.set(subscriber.id, subscriber);
+
+  // Undelayed viewers get the state straight away
+  if (delay === 0) {
+    pushFrame(publisher, { at: Date.now(), json: JSON.stringify(state), finished: state.status === 'finished' });
+  }
+
+  broadcastViewers(publisher);
+  deliver(publisher, Date.now());
+
+  if (!publisher.timer) {
+    publisher.timer = setInterval(() => {
+      void tick(publisher!);
+    }, GAME_CONFIG.SPECTATOR_TICK);
+  }
+
+  return { subscriberId: subscriber.id, delay };
+}
+
+export function unsubscribe(gameId: string, subscriberId: string) {
+  const publisher = publishers.get(gameId);
+  if (!publisher || !publisher.subscribers.delete(subscriberId)) return;
+
+  if (publisher.subscribers.size === 0) {
+    stopPublisher(publisher);
+  } else {
+    broadcastViewers(publisher);
+  }
+}
+
+export function getViewerCount(gameId: string): number {
+  return publishers.get(gameId)?.subscribers.size ?? 0;
+}
+
+function stopPublisher(publisher: Publisher) {
+  if (publisher.timer) {
+    clearInterval(publisher.timer);
+    publisher.timer = null;
+  }
+  if (publishers.get(publisher.gameId) === publisher) {
+    publishers.delete(publisher.gameId);
+  }
+}
+
+async function tick(publisher: Publisher) {
+  if (publisher.ticking) return;
+  publisher.ticking = true;
+
+  try {
+    const now = Date.now();
+
+    // Nothing changes after full time, so stop reading the game
+    if (!publisher.finished) {
+      const state = await peekGameState(publisher.gameId);
+      if (!state) {
+        for (const subscriber of publisher.subscribers.values()) {
+          subscriber.send('error', JSON.stringify("game not found"));
+          subscriber.close();
+        }
+        publisher.subscribers.clear();
+        stopPublisher(publisher);
+        return;
+      }
+      pushFrame(publisher, { at: now, json: JSON.stringify(state), finished: state.status === 'finished' });
+    }
+
+    deliver(publisher, now);
+    trimFrames(publisher, now);
+  } catch (error) {
+    console.error(`Spectator broadcast for game ${publisher.gameId} failed:`, error);
+  } finally {
+    publisher.ticking = false;
+  }
+}
+
+function pushFrame(publisher: Publisher, frame: Frame) {
+  const last = publisher.frames[publisher.frames.length - 1];
+  // Keep the old frame's time so delayed viewers see a quiet spell as one frame
+  if (last && last.json === frame.json) return;
+  publisher.frames.push(frame);
+  if (frame.finished) publisher.finished = true;
+}
+
+/**
+ * Send each subscriber the newest frame it is allowed to see
+ */
+function deliver(publisher: Publisher, now: number) {
+  for (const subscriber of publisher.subscribers.values()) {
+    if (subscriber.done) continue;
+
+    let frame: Frame | null = null;
+    for (let i = publisher.frames.length - 1; i >= 0; i--) {
+      if (publisher.frames[i].at <= now - subscriber.delay) {
+        frame = publisher.frames[i];
+        break;
+      }
+    }
+
+    if (frame && frame !== subscriber.lastSent) {
+      subscriber.send(subscriber.lastSent ? 'update' : 'init', frame.json);
+      subscriber.lastSent = frame;
+      subscriber.lastWrite = now;
+
+      if (frame.finished) {
+        // Give viewers a moment on the final whistle, then end the stream
+        subscriber.done = true;
+        subscriber.send('end', JSON.stringify("finished"));
+        setTimeout(() => {
+          subscriber.close();
+          unsubscribe(publisher.gameId, subscriber.id);
+        }, GAME_CONFIG.SPECTATOR_FINAL_HOLD);
+      }
+    } else if (now - subscriber.lastWrite >= GAME_CONFIG.SPECTATOR_KEEPALIVE) {
+      subscriber.send(null, "keep-alive");
+      subscriber.lastWrite = now;
+    }
+  }
+}
+
+/**
+ * Drop frames every subscriber has moved past
+ */
+function trimFrames(publisher: Publisher, now: number) {
+  let maxDelay = 0;
+  for (const subscriber of publisher.subscribers.values()) {
+    maxDelay = Math.max(maxDelay, subscriber.delay);
+  }
+
+  // Keep the newest frame that the most delayed viewer can already see
+  const cutoff = now - maxDelay;
+  let keepFrom = 0;
+  for (let i = publisher.frames.length - 1; i >= 0; i--) {
+    if (publisher.frames[i].at <= cutoff) {
+      keepFrom = i;
+      break;
+    }
+  }
+  if (keepFrom > 0) publisher.frames.splice(0, keepFrom);
+}
+
+function broadcastViewers(publisher: Publisher) {
+  const viewers = publisher.subscribers.size;
+  for (const subscriber of publisher.subscribers.values()) {
+    if (subscriber.done) continue;
+    subscriber.send('viewers', JSON.stringify({ viewers, delay: subscriber.delay }));
+  }
+}
@@ -0,0 +1,168 @@
+import { GAME_CONFIG } from "@/types/game";
+import type { PublicGameState } from "@/types/game";
+
+/**
+ * Delta encoding for the game stream.
+ *
+ * Deltas are JSON Patch (RFC 6902) `add`/`remove`/`replace` operations from
+ * one version of the public state to the next. Objects are compared key by
+ * key and arrays index by index while their length is unchanged, so a tick
+ * that only moves the ball and a few players costs a handful of operations.
+ *
+ * Recently streamed versions of each game are kept in memory so a client
+ * reconnecting with Last-Event-ID can be sent a delta from the version it
+ * already has instead of a fresh keyframe.
+ */
+
+export type PatchOperation =
+  | { op: 'add' | 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+function isObject(value: Json): value is { [key: string]: Json } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function escapePathSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePathSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * The state as it goes over the wire: undefined fields dropped, dates as strings
+ */
+export function toWire(state: PublicGameState): Json {
+  return JSON.parse(JSON.stringify(state));
+}
+
+/**
+ * Operations that turn `from` into `to`
+ */
+export function diffState(from: Json, to: Json, path = ''): PatchOperation[] {
+  if (from === to) return [];
+
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) {
+    return from.flatMap((item, i) => diffState(item, to[i], `${path}/${i}`));
+  }
+
+  if (isObject(from) && isObject(to)) {
+    const ops: PatchOperation[] = [];
+    for (const key of Object.keys(from)) {
+      if (!(key in to)) ops.push({ op: 'remove', path: `${path}/${escapePathSegment(key)}` });
+    }
+    for (const key of Object.keys(to)) {
+      const keyPath = `${path}/${escapePathSegment(key)}`;
+      if (key in from) {
+        ops.push(...diffState(from[key], to[key], keyPath));
+      } else {
+        ops.push({ op: 'add', path: keyPath, value: to[key] });
+      }
+    }
+    return ops;
+  }
+
+  return [{ op: 'replace', path, value: to }];
+}
+
+/**
+ * Apply operations from diffState to a copy of `state`
+ */
+export function applyPatch<T>(state: T, ops: PatchOperation[]): T {
+  let root: unknown = structuredClone(state);
+
+  for (const operation of ops) {
+    if (operation.path === '') {
+      if (operation.op === 'remove') throw new Error("Can't remove the whole state");
+      root = structuredClone(operation.value);
+      continue;
+    }
+
+    const segments = operation.path.slice(1).split('/').map(unescapePathSegment);
+    const last = segments.pop()!;
+    let parent = root;
+    for (const segment of segments) {
+      parent = isContainer(parent) ? parent[segment] : undefined;
+    }
+    if (!isContainer(parent)) {
+      throw new Error(`Invalid patch path: ${operation.path}`);
+    }
+
+    if (operation.op === 'remove') {
+      delete parent[last];
+    } else {
+      parent[last] = structuredClone(operation.value);
+    }
+  }
+
+  return root as T;
+}
+
+interface StreamHistory {
+  versions: Map<number, Json>; // insertion order = oldest first
+  lastUsed: number;
+}
+
+/**
+ * Global is used here so every stream connection of a game shares one history
+ */
+let histories: Map<string, StreamHistory> = (global as any).streamHistories;
+
+if (!histories) {
+  histories = (global as any).streamHistories = new Map();
+}
+
+/**
+ * Remember a streamed version so reconnecting clients can resume from it
+ */
+export function rememberVersion(gameId: string, version: number, wire: Json) {
+  const now = Date.now();
+  forgetIdleGames(now);
+
+  let history = histories.get(gameId);
+  if (!history) {
+    history = { versions: new Map(), lastUsed: now };
+    histories.set(gameId, history);
+  }
+  history.lastUsed = now;
+  if (history.versions.has(version)) return;
+
+  history.versions.set(version, wire);
+  while (history.versions.size > GAME_CONFIG.STREAM_HISTORY) {
+    history.versions.delete(history.versions.keys().next().value!);
+  }
+}
+
+export function recallVersion(gameId: string, version: number): Json | undefined {
+  const history = histories.get(gameId);
+  if (!history) return undefined;
+  history.lastUsed = Date.now();
+  return history.versions.get(version);
+}
+
+/**
+ * Drop the history of games nobody has streamed for STREAM_HISTORY_IDLE -
+ * games abandoned in the lobby or deleted never reach full time
+ */
+function forgetIdleGames(now: number) {
+  for (const [gameId, history] of histories) {
+    if (now - history.lastUsed > GAME_CONFIG.STREAM_HISTORY_IDLE) {
+      histories.delete(gameId);
+    }
+  }
+}
+
+/**
+ * Drop a game's history once nobody can still be resuming it - after full
+ * time, or when the game is deleted
+ */
+export function forgetGame(gameId: string) {
+  histories.delete(gameId);
+}
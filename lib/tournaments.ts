@@ -0,0 +1,540 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { GAME_CONFIG } from "@/types/game";
+import type {
+  GameState,
+  GameEvent,
+  TeamId,
+  Tiebreak,
+  Tournament,
+  TournamentFormat,
+  TournamentFixture,
+  TournamentGameConfig,
+  PublicTournament,
+  Standing,
+} from "@/types/game";
+import { getGameStore } from "./gameStore";
+import { createGame } from "./gameLogic";
+import { hashToken } from "./playerAuth";
+
+/**
+ * Round-robin leagues and knockout brackets.
+ *
+ * The organizer creates a tournament (getting an organizerToken), entrants
+ * register (each getting an entrantToken for their agents), and starting the
+ * tournament generates the fixtures. Every fixture whose two entrants are
+ * known gets a game created for it; agents join with their entrant's
+ * credentials and always play on their fixture side (home = team A). When a
+ * tournament game finishes the result is written back to its fixture, and
+ * knockout winners move on to the next round, whose game is created as soon
+ * as both sides are known.
+ *
+ * Tournaments are written whole, conditional on `version`, so two games
+ * finishing at the same moment can't lose each other's results.
+ */
+
+export function sanitizeTournament(tournament: Tournament): PublicTournament {
+  const { organizerTokenHash, entrants, ...rest } = tournament;
+  return { ...rest, entrants: entrants.map(({ tokenHash, ...entrant }) => entrant) };
+}
+
+function tokensMatch(token: string, hash: string): boolean {
+  return timingSafeEqual(Buffer.from(hashToken(token), "hex"), Buffer.from(hash, "hex"));
+}
+
+/**
+ * Create a tournament. Knockout games are always played to a golden goal so
+ * every fixture has a winner.
+ */
+export async function createTournament(
+  name: string,
+  format: TournamentFormat,
+  config: {
+    playersPerTeam?: number;
+    goalsToWin?: number;
+    matchDuration?: number;
+    halves?: number;
+    tiebreak?: Tiebreak;
+    offside?: boolean;
+  } = {}
+): Promise<{ success: boolean; tournament?: PublicTournament; organizerToken?: string; message?: string }> {
+  if (format !== 'roundRobin' && format !== 'knockout') {
+    return { success: false, message: "format must be 'roundRobin' or 'knockout'" };
+  }
+
+  const gameConfig: TournamentGameConfig = {
+    playersPerTeam: config.playersPerTeam || 5,
+    goalsToWin: config.goalsToWin || 3,
+    matchDuration: config.matchDuration ?? GAME_CONFIG.DEFAULT_MATCH_DURATION,
+    halves: config.halves === 2 ? 2 : 1,
+    tiebreak: format === 'knockout' || config.tiebreak === 'goldenGoal' ? 'goldenGoal' : 'draw',
+    offside: config.offside === true,
+  };
+
+  const organizerToken = randomBytes(24).toString("hex");
+  const tournament: Tournament = {
+    tournamentId: uuidv4(),
+    name,
+    format,
+    status: 'registering',
+    config: gameConfig,
+    organizerTokenHash: hashToken(organizerToken),
+    entrants: [],
+    fixtures: [],
+    createdAt: Date.now(),
+    version: 0,
+  };
+
+  await getGameStore().tournaments.create(tournament);
+  return { success: true, tournament: sanitizeTournament(tournament), organizerToken };
+}
+
+export async function getTournament(tournamentId: string): Promise<PublicTournament | null> {
+  const tournament = await getGameStore().tournaments.load(tournamentId);
+  return tournament ? sanitizeTournament(tournament) : null;
+}
+
+export async function listTournaments(): Promise<PublicTournament[]> {
+  const tournaments = await getGameStore().tournaments.list(['registering', 'running', 'finished'], 50);
+  return tournaments.map(sanitizeTournament);
+}
+
+/**
+ * Register an entrant (an agent team) while the tournament is open
+ */
+export async function registerEntrant(
+  tournamentId: string,
+  name: string
+): Promise<{ success: boolean; entrantId?: string; entrantToken?: string; message?: string }> {
+  const store = getGameStore();
+
+  for (let attempt = 0; attempt <= GAME_CONFIG.ACTION_MAX_RETRIES; attempt++) {
+    const tournament = await store.tournaments.load(tournamentId);
+    if (!tournament) {
+      return { success: false, message: "Tournament not found" };
+    }
+
+    if (tournament.status !== 'registering') {
+      return { success: false, message: "Registration is closed" };
+    }
+
+    if (tournament.entrants.length >= GAME_CONFIG.TOURNAMENT_MAX_ENTRANTS) {
+      return { success: false, message: "Tournament is full" };
+    }
+
+    if (tournament.entrants.some(entrant => entrant.name === name)) {
+      return { success: false, message: "An entrant with this name is already registered" };
+    }
+
+    const entrantId = uuidv4();
+    const entrantToken = randomBytes(24).toString("hex");
+    const loadedVersion = tournament.version;
+
+    tournament.entrants.push({ entrantId, name, tokenHash: hashToken(entrantToken), registeredAt: Date.now() });
+    tournament.version++;
+
+    if (await store.tournaments.updateIfVersion(tournament, loadedVersion)) {
+      return { success: true, entrantId, entrantToken };
+    }
+  }
+
+  return { success: false, message: "Tournament is busy, please try again" };
+}
+
+/**
+ * Check the organizer's token before starting the tournament
+ */
+export async function authenticateOrganizer(
+  tournamentId: string,
+  token: unknown
+): Promise<{ success: true } | { success: false; status: 401 | 403 | 404; message: string }> {
+  if (typeof token !== "string" || !token) {
+    return { success: false, status: 401, message: "organizerToken is required" };
+  }
+
+  const tournament = await getGameStore().tournaments.load(tournamentId);
+  if (!tournament) {
+    return { success: false, status: 404, message: "Tournament not found" };
+  }
+
+  if (!tokensMatch(token, tournament.organizerTokenHash)) {
+    return { success: false, status: 403, message: "Invalid organizer token" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Check an entrant's token before one of its agents joins a tournament game,
+ * and work out which side of the fixture it plays on
+ */
+export async function authenticateEntrant(
+  gameId: string,
+  entrantId: unknown,
+  token: unknown
+): Promise<{ success: true; team: TeamId } | { success: false; status: 400 | 401 | 403 | 404; message: string }> {
+  if (typeof entrantId !== "string" || !entrantId) {
+    return { success: false, status: 400, message: "entrantId must be a string" };
+  }
+  if (typeof token !== "string" || !token) {
+    return { success: false, status: 401, message: "entrantToken is required" };
+  }
+
+  const game = await getGameStore().load(gameId);
+  if (!game) {
+    return { success: false, status: 404, message: "Game not found" };
+  }
+  if (!game.tournament) {
+    return { success: false, status: 400, message: "This is not a tournament game" };
+  }
+
+  const tournament = await getGameStore().tournaments.load(game.tournament.tournamentId);
+  const entrant = tournament?.entrants.find(e => e.entrantId === entrantId);
+  if (!entrant) {
+    return { success: false, status: 404, message: "Entrant not found" };
+  }
+
+  if (!tokensMatch(token, entrant.tokenHash)) {
+    return { success: false, status: 403, message: "Invalid entrant token" };
+  }
+
+  if (game.tournament.home === entrantId) return { success: true, team: 'A' };
+  if (game.tournament.away === entrantId) return { success: true, team: 'B' };
+  return { success: false, status: 403, message: "Your entrant isn't playing in this game" };
+}
+
+/**
+ * Close registration, generate the fixtures and create the first games
+ */
+export async function startTournament(
+  tournamentId: string
+): Promise<{ success: boolean; tournament?: PublicTournament; message?: string }> {
+  const store = getGameStore();
+
+  for (let attempt = 0; attempt <= GAME_CONFIG.ACTION_MAX_RETRIES; attempt++) {
+    const tournament = await store.tournaments.load(tournamentId);
+    if (!tournament) {
+      return { success: false, message: "Tournament not found" };
+    }
+
+    if (tournament.status !== 'registering') {
+      return { success: false, message: "Fixtures have already been generated" };
+    }
+
+    if (tournament.entrants.length < 2) {
+      return { success: false, message: "At least 2 entrants are needed" };
+    }
+
+    const loadedVersion = tournament.version;
+    const entrantIds = tournament.entrants.map(entrant => entrant.entrantId);
+    tournament.fixtures = tournament.format === 'roundRobin'
+      ? roundRobinFixtures(entrantIds)
+      : knockoutFixtures(entrantIds);
+    tournament.status = 'running';
+    tournament.startedAt = Date.now();
+    advanceBracket(tournament);
+    tournament.version++;
+
+    if (await store.tournaments.updateIfVersion(tournament, loadedVersion)) {
+      await createFixtureGames(tournament);
+      return { success: true, tournament: await getTournament(tournamentId) ?? sanitizeTournament(tournament) };
+    }
+  }
+
+  return { success: false, message: "Tournament is busy, please try again" };
+}
+
+/**
+ * Every entrant plays every other once (circle method). With an odd number
+ * of entrants one sits out each round.
+ */
+function roundRobinFixtures(entrantIds: string[]): TournamentFixture[] {
+  const circle: Array<string | null> = [...entrantIds];
+  if (circle.length % 2 === 1) circle.push(null);
+
+  const fixtures: TournamentFixture[] = [];
+  const rounds = circle.length - 1;
+
+  for (let round = 1; round <= rounds; round++) {
+    let slot = 0;
+    for (let i = 0; i < circle.length / 2; i++) {
+      let home = circle[i];
+      let away = circle[circle.length - 1 - i];
+      if (!home || !away) continue;
+      // Alternate the fixed entrant's side so it isn't always home
+      if (i === 0 && round % 2 === 0) [home, away] = [away, home];
+      fixtures.push({ fixtureId: uuidv4(), round, slot: slot++, home, away, status: 'scheduled' });
+    }
+    // Keep the first entrant fixed and rotate everyone else one place
+    circle.splice(1, 0, circle.pop()!);
+  }
+
+  return fixtures;
+}
+
+/**
+ * Single-elimination bracket, seeded in registration order. The bracket is
+ * padded to a power of two with byes, which go to the top seeds.
+ */
+function knockoutFixtures(entrantIds: string[]): TournamentFixture[] {
+  let size = 2;
+  while (size < entrantIds.length) size *= 2;
+
+  // Standard seeding order, e.g. 1 v 8, 4 v 5, 2 v 7, 3 v 6 for 8 places
+  let seeds = [1];
+  while (seeds.length < size) {
+    const places = seeds.length * 2;
+    seeds = seeds.flatMap(seed => [seed, places + 1 - seed]);
+  }
+
+  const fixtures: TournamentFixture[] = [];
+  const entrantAt = (seed: number) => entrantIds[seed - 1] ?? null;
+
+  for (let slot = 0; slot < size / 2; slot++) {
+    const home = entrantAt(seeds[slot * 2]);
+    const away = entrantAt(seeds[slot * 2 + 1]);
+    const bye = !home || !away;
+    fixtures.push({
+      fixtureId: uuidv4(),
+      round: 1,
+      slot,
+      home,
+      away,
+      status: bye ? 'bye' : 'scheduled',
+      winner: bye ? (home ?? away)! : undefined,
+    });
+  }
+
+  for (let round = 2, count = size / 4; count >= 1; round++, count /= 2) {
+    for (let slot = 0; slot < count; slot++) {
+      fixtures.push({ fixtureId: uuidv4(), round, slot, home: null, away: null, status: 'pending' });
+    }
+  }
+
+  return fixtures;
+}
+
+/**
+ * Move knockout winners into their next-round fixture and finish the
+ * tournament once every fixture is decided
+ */
+function advanceBracket(tournament: Tournament) {
+  if (tournament.format === 'knockout') {
+    const lastRound = Math.max(...tournament.fixtures.map(fixture => fixture.round));
+
+    for (const fixture of tournament.fixtures) {
+      if (!fixture.winner || fixture.round === lastRound) continue;
+
+      const next = tournament.fixtures.find(f => f.round === fixture.round + 1 && f.slot === Math.floor(fixture.slot / 2));
+      if (!next) continue;
+
+      if (fixture.slot % 2 === 0) next.home = fixture.winner;
+      else next.away = fixture.winner;
+
+      if (next.status === 'pending' && next.home && next.away) {
+        next.status = 'scheduled';
+      }
+    }
+
+    const final = tournament.fixtures.find(fixture => fixture.round === lastRound);
+    if (final?.winner) {
+      tournament.status = 'finished';
+      tournament.finishedAt = Date.now();
+      tournament.winner = final.winner;
+    }
+    return;
+  }
+
+  if (tournament.fixtures.every(fixture => fixture.status === 'finished')) {
+    tournament.status = 'finished';
+    tournament.finishedAt = Date.now();
+    tournament.winner = computeStandings(tournament)[0]?.entrantId;
+  }
+}
+
+/**
+ * Create games for scheduled fixtures that don't have one yet, then link
+ * them to their fixtures. Only the writer that scheduled a fixture calls
+ * this, so each fixture gets exactly one game.
+ */
+async function createFixtureGames(tournament: Tournament) {
+  const created = new Map<string, string>();
+
+  for (const fixture of tournament.fixtures) {
+    if (fixture.status !== 'scheduled' || fixture.gameId || !fixture.home || !fixture.away) continue;
+
+    const result = await createGame(null, tournament.config, undefined, {
+      tournamentId: tournament.tournamentId,
+      fixtureId: fixture.fixtureId,
+      home: fixture.home,
+      away: fixture.away,
+    });
+
+    if (result.success && result.gameId) {
+      created.set(fixture.fixtureId, result.gameId);
+    } else {
+      console.error(`Failed to create a game for fixture ${fixture.fixtureId}: ${result.message}`);
+    }
+  }
+
+  if (created.size === 0) return;
+
+  const store = getGameStore();
+  for (let attempt = 0; attempt <= GAME_CONFIG.ACTION_MAX_RETRIES; attempt++) {
+    const latest = await store.tournaments.load(tournament.tournamentId);
+    if (!latest) return;
+
+    const loadedVersion = latest.version;
+    for (const fixture of latest.fixtures) {
+      const gameId = created.get(fixture.fixtureId);
+      if (gameId && !fixture.gameId) fixture.gameId = gameId;
+    }
+    latest.version++;
+
+    if (await store.tournaments.updateIfVersion(latest, loadedVersion)) return;
+  }
+
+  console.error(`Failed to link games to fixtures of tournament ${tournament.tournamentId}`);
+}
+
+/**
+ * Write a finished tournament game's result to its fixture. Call after the
+ * write that finished the game succeeded; like the event log, a failure here
+ * is logged rather than failing that write.
+ */
+export async function recordTournamentResult(state: GameState, events: GameEvent[]) {
+  if (!state.tournament || !events.some(event => event.type === 'finish')) return;
+
+  const { tournamentId, fixtureId } = state.tournament;
+  const store = getGameStore();
+
+  try {
+    for (let attempt = 0; attempt <= GAME_CONFIG.ACTION_MAX_RETRIES; attempt++) {
+      const tournament = await store.tournaments.load(tournamentId);
+      const fixture = tournament?.fixtures.find(f => f.fixtureId === fixtureId);
+      if (!tournament || !fixture || fixture.status === 'finished') return;
+
+      const loadedVersion = tournament.version;
+      fixture.status = 'finished';
+      fixture.gameId = fixture.gameId ?? state.gameId;
+      fixture.score = { ...state.score };
+      fixture.winner = state.winner === 'A' ? fixture.home! : state.winner === 'B' ? fixture.away! : undefined;
+      // Knockout games are played to a golden goal; if one still ends level
+      // (no time limit and no goals to win), the higher seed goes through
+      if (tournament.format === 'knockout' && !fixture.winner) {
+        fixture.winner = fixture.home!;
+      }
+
+      advanceBracket(tournament);
+      tournament.version++;
+
+      if (await store.tournaments.updateIfVersion(tournament, loadedVersion)) {
+        await createFixtureGames(tournament);
+        return;
+      }
+    }
+
+    console.error(`Failed to record game ${state.gameId} in tournament ${tournamentId} after concurrent updates`);
+  } catch (error) {
+    console.error(`Failed to record game ${state.gameId} in tournament ${tournamentId}:`, error);
+  }
+}
+
+/**
+ * League table from finished fixtures. Ties are broken by goal difference,
+ * goals scored, then points in the games between the tied entrants, then
+ * registration order.
+ */
+export function computeStandings(tournament: Tournament | PublicTournament): Standing[] {
+  const rows = new Map<string, Standing>(tournament.entrants.map(entrant => [entrant.entrantId, {
+    rank: 0,
+    entrantId: entrant.entrantId,
+    name: entrant.name,
+    played: 0,
+    won: 0,
+    drawn: 0,
+    lost: 0,
+    goalsFor: 0,
+    goalsAgainst: 0,
+    goalDifference: 0,
+    points: 0,
+  }]));
+
+  const results = tournament.fixtures.filter(fixture => fixture.status === 'finished' && fixture.score && fixture.home && fixture.away);
+
+  for (const fixture of results) {
+    const sides: Array<[string, number, number]> = [
+      [fixture.home!, fixture.score!.teamA, fixture.score!.teamB],
+      [fixture.away!, fixture.score!.teamB, fixture.score!.teamA],
+    ];
+    for (const [entrantId, scored, conceded] of sides) {
+      const row = rows.get(entrantId);
+      if (!row) continue;
+      row.played++;
+      row.goalsFor += scored;
+      row.goalsAgainst += conceded;
+      row.goalDifference = row.goalsFor - row.goalsAgainst;
+      if (fixture.winner === entrantId) {
+        row.won++;
+        row.points += GAME_CONFIG.TOURNAMENT_POINTS_WIN;
+      } else if (!fixture.winner) {
+        row.drawn++;
+        row.points += GAME_CONFIG.TOURNAMENT_POINTS_DRAW;
+      } else {
+        row.lost++;
+      }
+    }
+  }
+
+  // Head-to-head points only count games between entrants level on the
+  // first three tiebreakers
+  const level = (row: Standing) => `${row.points}|${row.goalDifference}|${row.goalsFor}`;
+  const headToHead = new Map<string, number>();
+  for (const fixture of results) {
+    const home = rows.get(fixture.home!);
+    const away = rows.get(fixture.away!);
+    if (!home || !away || level(home) !== level(away)) continue;
+
+    for (const row of [home, away]) {
+      const points = fixture.winner === row.entrantId
+        ? GAME_CONFIG.TOURNAMENT_POINTS_WIN
+        : !fixture.winner ? GAME_CONFIG.TOURNAMENT_POINTS_DRAW : 0;
+      headToHead.set(row.entrantId, (headToHead.get(row.entrantId) ?? 0) + points);
+    }
+  }
+
+  const order = tournament.entrants.map(entrant => entrant.entrantId);
+  const standings = [...rows.values()].sort((a, b) =>
+    b.points - a.points ||
+    b.goalDifference - a.goalDifference ||
+    b.goalsFor - a.goalsFor ||
+    (headToHead.get(b.entrantId) ?? 0) - (headToHead.get(a.entrantId) ?? 0) ||
+    order.indexOf(a.entrantId) - order.indexOf(b.entrantId)
+  );
+
+  standings.forEach((row, index) => { row.rank = index + 1; });
+  return standings;
+}
+
+/**
+ * Knockout fixtures grouped by round, first round first
+ */
+export function computeBracket(tournament: Tournament | PublicTournament) {
+  const rounds = [...new Set(tournament.fixtures.map(fixture => fixture.round))].sort((a, b) => a - b);
+  const lastRound = rounds[rounds.length - 1];
+
+  return rounds.map(round => ({
+    round,
+    name: roundName(lastRound - round),
+    fixtures: tournament.fixtures.filter(fixture => fixture.round === round).sort((a, b) => a.slot - b.slot),
+  }));
+}
+
+function roundName(roundsFromFinal: number): string {
+  switch (roundsFromFinal) {
+    case 0: return 'Final';
+    case 1: return 'Semi-finals';
+    case 2: return 'Quarter-finals';
+    default: return `Round of ${Math.pow(2, roundsFromFinal + 1)}`;
+  }
+}
@@ -0,0 +1,33 @@
+import { Schema, model, models, Document } from "mongoose";
+import type { QueuedAction } from "@/lib/gameStore";
+
+export interface IGameActionDoc extends QueuedAction, Document {
+  _id: string;
+}
+
+const GameActionSchema = new Schema<IGameActionDoc>({
+  _id: { type: String, required: true }, // actionId
+  actionId: { type: String, required: true },
+  gameId: { type: String, required: true },
+  action: { type: Schema.Types.Mixed, required: true },
+  status: {
+    type: String,
+    enum: ['pending', 'claimed', 'processed', 'expired'],
+    default: 'pending',
+  },
+  claimToken: String,
+  result: Schema.Types.Mixed,
+  createdAt: { type: Number, default: () => Date.now() },
+  processedAt: Number,
+}, {
+  minimize: false,
+  strict: true,
+  timestamps: false
+});
+
+// The game loop drains pending actions per game in arrival order
+GameActionSchema.index({ actionId: 1 }, { unique: true });
+GameActionSchema.index({ gameId: 1, status: 1, createdAt: 1 });
+GameActionSchema.index({ claimToken: 1 }, { sparse: true });
+
+export const GameActionModel = models.GameAction || model<IGameActionDoc>("GameAction", GameActionSchema);
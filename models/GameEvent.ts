@@ -0,0 +1,33 @@
+import { Schema, model, models, Document } from "mongoose";
+import type { GameEvent, GameEventType } from "@/types/game";
+
+export interface IGameEventDoc extends Document {
+  gameId: string;
+  version: number; // game version the event was saved with
+  index: number; // position within that save
+  tick: number;
+  type: GameEventType;
+  event: GameEvent;
+}
+
+const GameEventSchema = new Schema<IGameEventDoc>({
+  gameId: { type: String, required: true },
+  version: { type: Number, required: true },
+  index: { type: Number, required: true },
+  tick: { type: Number, required: true },
+  type: {
+    type: String,
+    enum: ['start', 'action', 'kickoff', 'possession', 'outOfPlay', 'tackle', 'save', 'offside', 'foul', 'card', 'goal', 'halftime', 'goldenGoal', 'finish'],
+    required: true,
+  },
+  event: { type: Schema.Types.Mixed, required: true },
+}, {
+  minimize: false,
+  strict: true,
+  timestamps: false
+});
+
+// Replays read a game's whole log in write order
+GameEventSchema.index({ gameId: 1, version: 1, index: 1 });
+
+export const GameEventModel = models.GameEvent || model<IGameEventDoc>("GameEvent", GameEventSchema);
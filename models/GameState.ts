@@ -25,8 +25,22 @@ const PlayerSchema = new Schema({
     goals: { type: Number, default: 0 },
     assists: { type: Number, default: 0 },
     passes: { type: Number, default: 0 },
+    passesCompleted: { type: Number, default: 0 },
+    interceptions: { type: Number, default: 0 },
+    shots: { type: Number, default: 0 },
+    shotsOnTarget: { type: Number, default: 0 },
     tackles: { type: Number, default: 0 },
+    tacklesWon: { type: Number, default: 0 },
+    tacklesLost: { type: Number, default: 0 },
+    saves: { type: Number, default: 0 },
+    fouls: { type: Number, default: 0 },
+    possessionTime: { type: Number, default: 0 },
+    distanceCovered: { type: Number, default: 0 },
   },
+  yellowCards: { type: Number, default: 0 },
+  handle: String, // linked PlayerProfile
+  bot: { type: String, enum: ['easy', 'medium', 'hard'] },
+  slot: Number, // formation slot
 }, { _id: false });
 
 const BallSchema = new Schema({
@@ -40,6 +54,40 @@ const BallSchema = new Schema({
   },
   possessionPlayerId: String,
   lastTouchPlayerId: String,
+  inFlight: {
+    type: new Schema({
+      kind: { type: String, enum: ['pass', 'shot'] },
+      playerId: String,
+      team: { type: String, enum: ['A', 'B'] },
+      beaten: { type: [String], default: undefined },
+    }, { _id: false }),
+    default: undefined,
+  },
+  lastPass: {
+    type: new Schema({
+      playerId: String,
+      team: { type: String, enum: ['A', 'B'] },
+    }, { _id: false }),
+    default: undefined,
+  },
+}, { _id: false });
+
+const RestartSchema = new Schema({
+  type: { type: String, enum: ['throwIn', 'goalKick', 'corner', 'freeKick', 'indirectFreeKick', 'penalty'], required: true },
+  team: { type: String, enum: ['A', 'B'], required: true },
+  takerId: String,
+  position: {
+    x: Number,
+    y: Number,
+  },
+  awardedAt: Number,
+}, { _id: false });
+
+const TournamentLinkSchema = new Schema({
+  tournamentId: { type: String, required: true },
+  fixtureId: { type: String, required: true },
+  home: { type: String, required: true },
+  away: { type: String, required: true },
 }, { _id: false });
 
 const GameStateSchema = new Schema<IGameStateDoc>({
@@ -47,12 +95,19 @@ const GameStateSchema = new Schema<IGameStateDoc>({
   gameId: { type: String, required: true },
   status: {
     type: String,
-    enum: ['waiting', 'countdown', 'playing', 'finished'],
+    enum: ['waiting', 'countdown', 'kickoff', 'playing', 'finished'],
     default: 'waiting',
   },
   config: {
     playersPerTeam: { type: Number, default: 5 },
     goalsToWin: { type: Number, default: 3 },
+    matchDuration: { type: Number, default: 0 },
+    halves: { type: Number, enum: [1, 2], default: 1 },
+    tiebreak: { type: String, enum: ['draw', 'goldenGoal'], default: 'draw' },
+    offside: { type: Boolean, default: false },
+    botFillTimeout: { type: Number, default: 0 },
+    botDifficulty: { type: String, enum: ['easy', 'medium', 'hard'], default: 'medium' },
+    spectatorDelay: { type: Number, default: 0 },
   },
   teamA: { type: [PlayerSchema], default: [] },
   teamB: { type: [PlayerSchema], default: [] },
@@ -68,6 +123,20 @@ const GameStateSchema = new Schema<IGameStateDoc>({
   lastUpdate: { type: Number, default: () => Date.now() },
   version: { type: Number, default: 0 },
   countdownStartTime: Number,
+  kickoffTeam: { type: String, enum: ['A', 'B'] },
+  kickoffStartTime: Number,
+  restart: { type: RestartSchema, default: undefined },
+  sentOff: { type: [PlayerSchema], default: [] },
+  matchTime: { type: Number, default: 0 },
+  half: { type: Number, enum: [1, 2], default: 1 },
+  sidesSwapped: { type: Boolean, default: false },
+  seed: { type: Number, default: 0 },
+  rngState: { type: Number, default: 0 },
+  formations: { type: Schema.Types.Mixed, default: undefined },
+  playerTokens: { type: Schema.Types.Mixed, default: {} },
+  controllers: { type: Schema.Types.Mixed, default: undefined },
+  controllerTokens: { type: Schema.Types.Mixed, default: undefined },
+  tournament: { type: TournamentLinkSchema, default: undefined },
 }, {
   // Schema options to ensure proper change tracking
   minimize: false,  // Don't remove empty objects
@@ -0,0 +1,41 @@
+import { Schema, model, models, Document } from "mongoose";
+import type { MatchTicket } from "@/lib/gameStore";
+
+export interface IMatchTicketDoc extends MatchTicket, Document {
+  _id: string;
+}
+
+const MatchTicketSchema = new Schema<IMatchTicketDoc>({
+  _id: { type: String, required: true }, // ticketId
+  ticketId: { type: String, required: true },
+  playerName: { type: String, required: true },
+  role: { type: String, enum: ['goalkeeper', 'defender', 'midfielder', 'striker'] },
+  playersPerTeam: { type: Number, required: true },
+  handle: String,
+  rating: Number,
+  status: {
+    type: String,
+    enum: ['waiting', 'matching', 'matched', 'expired', 'cancelled'],
+    default: 'waiting',
+  },
+  claimToken: String,
+  claimedAt: Number,
+  createdAt: { type: Number, default: () => Date.now() },
+  lastSeenAt: { type: Number, default: () => Date.now() },
+  gameId: String,
+  playerId: String,
+  playerToken: String,
+  team: { type: String, enum: ['A', 'B'] },
+  matchedAt: Number,
+}, {
+  minimize: false,
+  strict: true,
+  timestamps: false
+});
+
+// Matchmakers claim the waiting tickets for one team size, oldest first
+MatchTicketSchema.index({ ticketId: 1 }, { unique: true });
+MatchTicketSchema.index({ playersPerTeam: 1, status: 1, createdAt: 1 });
+MatchTicketSchema.index({ claimToken: 1 }, { sparse: true });
+
+export const MatchTicketModel = models.MatchTicket || model<IMatchTicketDoc>("MatchTicket", MatchTicketSchema);
@@ -0,0 +1,63 @@
+import { Schema, model, models, Document } from "mongoose";
+import type { PlayerProfile } from "@/types/game";
+
+export interface IPlayerProfileDoc extends PlayerProfile, Document {
+  _id: string;
+}
+
+const careerField = { type: Number, default: 0 };
+
+const ProfileMatchSchema = new Schema({
+  gameId: { type: String, required: true },
+  finishedAt: Number,
+  team: { type: String, enum: ['A', 'B'] },
+  result: { type: String, enum: ['win', 'draw', 'loss'] },
+  score: {
+    teamA: Number,
+    teamB: Number,
+  },
+  sentOff: Boolean,
+  stats: Schema.Types.Mixed,
+}, { _id: false });
+
+const PlayerProfileSchema = new Schema<IPlayerProfileDoc>({
+  _id: { type: String, required: true }, // handle
+  handle: { type: String, required: true },
+  displayName: { type: String, required: true },
+  tokenHash: { type: String, required: true },
+  createdAt: { type: Number, default: () => Date.now() },
+  updatedAt: { type: Number, default: () => Date.now() },
+  career: {
+    matches: careerField,
+    wins: careerField,
+    draws: careerField,
+    losses: careerField,
+    yellowCards: careerField,
+    redCards: careerField,
+    timePlayed: careerField,
+    goals: careerField,
+    assists: careerField,
+    passes: careerField,
+    passesCompleted: careerField,
+    interceptions: careerField,
+    shots: careerField,
+    shotsOnTarget: careerField,
+    tackles: careerField,
+    tacklesWon: careerField,
+    tacklesLost: careerField,
+    saves: careerField,
+    fouls: careerField,
+    possessionTime: careerField,
+    distanceCovered: careerField,
+  },
+  matchIds: { type: [String], default: [] },
+  recentMatches: { type: [ProfileMatchSchema], default: [] },
+}, {
+  minimize: false,
+  strict: true,
+  timestamps: false
+});
+
+PlayerProfileSchema.index({ handle: 1 }, { unique: true });
+
+export const PlayerProfileModel = models.PlayerProfile || model<IPlayerProfileDoc>("PlayerProfile", PlayerProfileSchema);
@@ -0,0 +1,42 @@
+import { Schema, model, models, Document } from "mongoose";
+import type { Rating } from "@/types/game";
+
+export interface IRatingDoc extends Rating, Document {
+  _id: string;
+  id: string;
+}
+
+const RatingChangeSchema = new Schema({
+  gameId: { type: String, required: true },
+  at: Number,
+  before: Number,
+  after: Number,
+  opponentRating: Number,
+  result: { type: String, enum: ['win', 'draw', 'loss'] },
+}, { _id: false });
+
+const RatingSchema = new Schema<IRatingDoc>({
+  _id: { type: String, required: true }, // rating id
+  id: { type: String, required: true },
+  kind: { type: String, enum: ['profile', 'team'], required: true },
+  handles: { type: [String], default: [] },
+  rating: { type: Number, required: true },
+  peak: { type: Number, required: true },
+  games: { type: Number, default: 0 },
+  wins: { type: Number, default: 0 },
+  draws: { type: Number, default: 0 },
+  losses: { type: Number, default: 0 },
+  updatedAt: { type: Number, default: () => Date.now() },
+  matchIds: { type: [String], default: [] },
+  history: { type: [RatingChangeSchema], default: [] },
+}, {
+  minimize: false,
+  strict: true,
+  timestamps: false
+});
+
+RatingSchema.index({ id: 1 }, { unique: true });
+// Leaderboards read the highest ratings of one kind
+RatingSchema.index({ kind: 1, rating: -1 });
+
+export const RatingModel = models.Rating || model<IRatingDoc>("Rating", RatingSchema);
@@ -0,0 +1,61 @@
+import { Schema, model, models, Document } from "mongoose";
+import type { Tournament } from "@/types/game";
+
+export interface ITournamentDoc extends Tournament, Document {
+  _id: string;
+}
+
+const EntrantSchema = new Schema({
+  entrantId: { type: String, required: true },
+  name: { type: String, required: true },
+  tokenHash: { type: String, required: true },
+  registeredAt: Number,
+}, { _id: false });
+
+const FixtureSchema = new Schema({
+  fixtureId: { type: String, required: true },
+  round: { type: Number, required: true },
+  slot: { type: Number, required: true },
+  home: { type: String, default: null },
+  away: { type: String, default: null },
+  status: { type: String, enum: ['pending', 'scheduled', 'finished', 'bye'], required: true },
+  gameId: String,
+  score: {
+    type: new Schema({ teamA: Number, teamB: Number }, { _id: false }),
+    default: undefined,
+  },
+  winner: String,
+}, { _id: false });
+
+const TournamentSchema = new Schema<ITournamentDoc>({
+  _id: { type: String, required: true }, // tournamentId
+  tournamentId: { type: String, required: true },
+  name: { type: String, required: true },
+  format: { type: String, enum: ['roundRobin', 'knockout'], required: true },
+  status: { type: String, enum: ['registering', 'running', 'finished'], default: 'registering' },
+  config: {
+    playersPerTeam: { type: Number, default: 5 },
+    goalsToWin: { type: Number, default: 3 },
+    matchDuration: { type: Number, default: 0 },
+    halves: { type: Number, enum: [1, 2], default: 1 },
+    tiebreak: { type: String, enum: ['draw', 'goldenGoal'], default: 'draw' },
+    offside: { type: Boolean, default: false },
+  },
+  organizerTokenHash: { type: String, required: true },
+  entrants: { type: [EntrantSchema], default: [] },
+  fixtures: { type: [FixtureSchema], default: [] },
+  winner: String,
+  createdAt: { type: Number, default: () => Date.now() },
+  startedAt: Number,
+  finishedAt: Number,
+  version: { type: Number, default: 0 },
+}, {
+  minimize: false,
+  strict: true,
+  timestamps: false
+});
+
+TournamentSchema.index({ tournamentId: 1 }, { unique: true });
+TournamentSchema.index({ status: 1, createdAt: -1 });
+
+export const TournamentModel = models.Tournament || model<ITournamentDoc>("Tournament", TournamentSchema);
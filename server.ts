@@ -0,0 +1,62 @@
+import { createServer } from "http";
+import next from "next";
+import { WebSocketServer } from "ws";
+import { acceptAgentSocket } from "@/lib/agentSockets";
+
+/**
+ * Custom server: Next.js plus the agent WebSocket endpoint.
+ *
+ * Usage: npm run dev:server (development) or npm run build && npm run start:server
+ * HTTP requests and every other upgrade (e.g. hot reload) go to Next.js;
+ * upgrades to /api/game/{gameId}/socket are handed to lib/agentSockets.ts.
+ */
+
+const SOCKET_PATH = /^\/api\/game\/([^/]+)\/socket$/;
+
+async function main() {
+  const dev = process.env.NODE_ENV !== "production";
+  const port = Number(process.env.PORT) || 3000;
+
+  const app = next({ dev });
+  await app.prepare();
+  const handleRequest = app.getRequestHandler();
+  const handleUpgrade = app.getUpgradeHandler();
+
+  const server = createServer((req, res) => {
+    void handleRequest(req, res);
+  });
+
+  // noServer: we pick which upgrades are ours
+  const sockets = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const match = pathname.match(SOCKET_PATH);
+
+    if (!match) {
+      void handleUpgrade(req, socket, head);
+      return;
+    }
+
+    sockets.handleUpgrade(req, socket, head, (ws) => {
+      acceptAgentSocket(ws, decodeURIComponent(match[1]));
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`Football Arena ready on http://localhost:${port} (agent sockets at /api/game/{gameId}/socket)`);
+  });
+
+  const shutdown = () => {
+    sockets.clients.forEach((ws) => ws.close(1001, "Server shutting down"));
+    server.close(() => process.exit(0));
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("Server failed to start:", error);
+  process.exit(1);
+});
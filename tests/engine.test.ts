@@ -0,0 +1,217 @@
+import { test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { GAME_CONFIG } from "@/types/game";
+import type { GameEvent, GameState, Player, Position } from "@/types/game";
+import { advance, applyAction, isOffside } from "@/lib/engine";
+import { useMockClock, resetMockClock, playingState, park, keeperOf, STEP } from "./helpers";
+
+beforeEach(useMockClock);
+afterEach(resetMockClock);
+
+function run(state: GameState, steps: number): { state: GameState; events: GameEvent[] } {
+  const { state: next, events } = advance(state, state.lastUpdate + steps * STEP);
+  return { state: next, events };
+}
+
+// Team A shoots at the right-hand goal, which team B defends in the first half
+function shotAt(game: GameState, keeperX: number) {
+  const keeper = keeperOf(game, "B");
+  const shooter = game.teamA[0];
+  park(keeper, { x: keeperX, y: GAME_CONFIG.FIELD_HEIGHT / 2 });
+  game.ball = {
+    position: { x: keeperX - 100, y: GAME_CONFIG.FIELD_HEIGHT / 2 },
+    velocity: { vx: 30, vy: 0 },
+    lastTouchPlayerId: shooter.id,
+    inFlight: { kind: "shot", playerId: shooter.id, team: "A" },
+  };
+  return keeper;
+}
+
+test("a shot reaching the keeper in the box is one seeded save roll", async () => {
+  const base = await playingState();
+  const outcomes = new Set<boolean>();
+
+  for (let rngState = 1; rngState <= 30; rngState++) {
+    const game = structuredClone(base);
+    game.rngState = rngState;
+    const keeper = shotAt(game, GAME_CONFIG.FIELD_WIDTH - 60);
+
+    const { state, events } = run(game, 8);
+    const saves = events.filter(event => event.type === "save");
+    assert.equal(saves.length, 1, "the keeper gets exactly one go at the shot");
+
+    const saved = saves[0].type === "save" && saves[0].success;
+    assert.equal(state.ball.possessionPlayerId === keeper.id, saved);
+    outcomes.add(saved);
+
+    // The same roll every time for the same generator state
+    assert.deepEqual(run(structuredClone(game), 8).events, events);
+  }
+
+  assert.deepEqual([...outcomes].sort(), [false, true], "some shots are saved and some get past");
+});
+
+test("a keeper outside the box blocks a shot like an outfield player", async () => {
+  const game = await playingState();
+  const keeper = shotAt(game, GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.PENALTY_AREA_DEPTH - 150);
+
+  const { state, events } = run(game, 8);
+  assert.equal(events.some(event => event.type === "save"), false);
+  assert.equal(state.ball.possessionPlayerId, keeper.id);
+});
+
+test("an outfield player in the way of a shot blocks it", async () => {
+  const game = await playingState();
+  shotAt(game, GAME_CONFIG.FIELD_WIDTH - 60);
+  const defender = game.teamB.find(p => p.role !== "goalkeeper")!;
+  park(defender, { x: game.ball.position.x + 40, y: GAME_CONFIG.FIELD_HEIGHT / 2 });
+
+  const { state } = run(game, 4);
+  assert.equal(state.ball.possessionPlayerId, defender.id);
+});
+
+test("with two halves the teams swap ends at half-time and the clock ends the match", async () => {
+  const game = await playingState({ halves: 2 });
+  game.config.matchDuration = 40 * STEP;
+  game.matchTime = 0;
+
+  const firstHalf = run(game, 25);
+  assert.equal(firstHalf.state.half, 2);
+  assert.equal(firstHalf.state.sidesSwapped, true);
+  assert.equal(firstHalf.state.status, "kickoff");
+  assert.equal(firstHalf.state.kickoffTeam, "B");
+  assert.ok(firstHalf.events.some(event => event.type === "halftime"));
+
+  // The clock stands still until the second-half kickoff is taken
+  const secondHalf = run(firstHalf.state, GAME_CONFIG.KICKOFF_TIMEOUT / STEP + 25);
+  assert.equal(secondHalf.state.status, "finished");
+  assert.ok(secondHalf.state.matchTime >= 40 * STEP);
+  assert.equal(secondHalf.events.filter(event => event.type === "finish").length, 1);
+});
+
+// Team B's first outfield player tackles team A's ball carrier at `spot`;
+// tries generator states until the missed tackle is a foul
+function foulAt(base: GameState, spot: Position, setup?: (tackler: Player) => void) {
+  for (let rngState = 1; rngState <= 500; rngState++) {
+    const game = structuredClone(base);
+    game.rngState = rngState;
+    const carrier = game.teamA.find(p => p.role !== "goalkeeper")!;
+    const tackler = game.teamB.find(p => p.role !== "goalkeeper")!;
+    park(carrier, spot);
+    park(tackler, { x: spot.x + 20, y: spot.y });
+    carrier.hasBall = true;
+    game.ball = { position: { ...spot }, velocity: { vx: 0, vy: 0 }, possessionPlayerId: carrier.id, lastTouchPlayerId: carrier.id };
+    setup?.(tackler);
+
+    const applied = applyAction(game, { type: "tackle", playerId: tackler.id, targetPlayerId: carrier.id }, game.lastUpdate);
+    if (applied.result.foul) return { ...applied, carrier, tackler };
+  }
+  assert.fail("no generator state gave a foul");
+}
+
+function playerIn(state: GameState, id: string): Player | undefined {
+  return [...state.teamA, ...state.teamB].find(p => p.id === id);
+}
+
+test("a foul in open play is a free kick where it happened", async () => {
+  const spot = { x: GAME_CONFIG.FIELD_WIDTH / 2 + 100, y: 200 };
+  const { state, result, events, carrier, tackler } = foulAt(await playingState(), spot);
+
+  assert.equal(result.tackleSuccess, false);
+  assert.equal(state.restart?.type, "freeKick");
+  assert.equal(state.restart?.team, "A");
+  assert.equal(state.restart?.takerId, carrier.id);
+  assert.deepEqual(state.restart?.position, spot);
+  assert.equal(playerIn(state, tackler.id)?.stats.fouls, 1);
+  assert.ok(events.some(event => event.type === "foul" && event.restart === "freeKick"));
+  assert.equal(events.some(event => event.type === "card"), false, "a first foul from the side is not booked");
+});
+
+test("a foul in the offender's own box is a penalty", async () => {
+  // Team B defends the right-hand goal in the first half
+  const spot = { x: GAME_CONFIG.FIELD_WIDTH - 80, y: GAME_CONFIG.FIELD_HEIGHT / 2 + 40 };
+  const { state } = foulAt(await playingState(), spot);
+
+  assert.equal(state.restart?.type, "penalty");
+  assert.equal(state.restart?.team, "A");
+  assert.deepEqual(state.restart?.position, { x: GAME_CONFIG.FIELD_WIDTH - GAME_CONFIG.PENALTY_SPOT_DISTANCE, y: GAME_CONFIG.FIELD_HEIGHT / 2 });
+});
+
+test("persistent fouling is booked and a second yellow sends the player off", async () => {
+  const spot = { x: GAME_CONFIG.FIELD_WIDTH / 2, y: 200 };
+  const base = await playingState();
+
+  const booked = foulAt(base, spot, tackler => { tackler.stats.fouls = GAME_CONFIG.FOULS_BEFORE_CAUTION; });
+  assert.equal(booked.result.card, "yellow");
+  assert.equal(playerIn(booked.state, booked.tackler.id)?.yellowCards, 1);
+
+  const sentOff = foulAt(base, spot, tackler => {
+    tackler.stats.fouls = GAME_CONFIG.FOULS_BEFORE_CAUTION;
+    tackler.yellowCards = 1;
+  });
+  assert.equal(sentOff.result.card, "red");
+  assert.equal(playerIn(sentOff.state, sentOff.tackler.id), undefined);
+  assert.deepEqual(sentOff.state.sentOff.map(p => p.id), [sentOff.tackler.id]);
+  assert.ok(sentOff.events.some(event => event.type === "card" && event.sentOff));
+});
+
+// Team A attacks the right-hand goal: its outfield player at `attackerX`,
+// team B's keeper on the goal line and outfield player at `defenderX`, the
+// ball with team A's keeper in the centre circle
+async function offsideLine(attackerX: number, defenderX: number, config: Parameters<typeof playingState>[0] = {}) {
+  const game = await playingState(config);
+  const passer = keeperOf(game, "A");
+  const receiver = game.teamA.find(p => p.role !== "goalkeeper")!;
+  park(passer, { x: GAME_CONFIG.FIELD_WIDTH / 2 - 50, y: 300 });
+  park(receiver, { x: attackerX, y: 200 });
+  park(keeperOf(game, "B"), { x: GAME_CONFIG.FIELD_WIDTH - 30, y: GAME_CONFIG.FIELD_HEIGHT / 2 });
+  park(game.teamB.find(p => p.role !== "goalkeeper")!, { x: defenderX, y: 400 });
+  passer.hasBall = true;
+  game.ball = { position: { ...passer.position }, velocity: { vx: 0, vy: 0 }, possessionPlayerId: passer.id, lastTouchPlayerId: passer.id };
+  return { game, passer, receiver };
+}
+
+test("a player is offside beyond the second-last opponent and the ball in the opponents' half", async () => {
+  const right = GAME_CONFIG.FIELD_WIDTH;
+
+  const beyond = await offsideLine(right - 200, right - 400);
+  assert.equal(isOffside(beyond.game, beyond.receiver), true);
+
+  const level = await offsideLine(right - 200, right - 150);
+  assert.equal(isOffside(level.game, level.receiver), false, "onside behind the last defender");
+
+  const ownHalf = await offsideLine(right / 2 - 20, right - 100);
+  assert.equal(isOffside(ownHalf.game, ownHalf.receiver), false, "never offside in your own half");
+
+  const behindBall = await offsideLine(right - 200, right - 400);
+  behindBall.game.ball.position = { x: right - 100, y: 300 };
+  assert.equal(isOffside(behindBall.game, behindBall.receiver), false, "never offside behind the ball");
+});
+
+test("a pass to an offside player is an indirect free kick to the defenders, unless offside is off", async () => {
+  const right = GAME_CONFIG.FIELD_WIDTH;
+
+  const { game, passer, receiver } = await offsideLine(right - 200, right - 400, { offside: true });
+  const { state, result, events } = applyAction(game, { type: "pass", playerId: passer.id, targetPlayerId: receiver.id }, game.lastUpdate);
+  assert.equal(result.offside, true);
+  assert.equal(state.restart?.type, "indirectFreeKick");
+  assert.equal(state.restart?.team, "B");
+  assert.deepEqual(state.restart?.position, receiver.position);
+  assert.ok(events.some(event => event.type === "offside" && event.playerId === receiver.id));
+
+  const off = await offsideLine(right - 200, right - 400);
+  const played = applyAction(off.game, { type: "pass", playerId: off.passer.id, targetPlayerId: off.receiver.id }, off.game.lastUpdate);
+  assert.equal(played.result.offside, undefined);
+  assert.equal(played.state.restart, undefined);
+  assert.equal(played.state.ball.inFlight?.kind, "pass");
+});
+
+test("nobody is offside from a throw-in", async () => {
+  const right = GAME_CONFIG.FIELD_WIDTH;
+  const { game, passer, receiver } = await offsideLine(right - 200, right - 400, { offside: true });
+  game.restart = { type: "throwIn", team: "A", takerId: passer.id, position: { ...passer.position }, awardedAt: game.lastUpdate };
+
+  const { result } = applyAction(game, { type: "pass", playerId: passer.id, targetPlayerId: receiver.id }, game.lastUpdate);
+  assert.equal(result.success, true);
+  assert.equal(result.offside, undefined);
+});
@@ -0,0 +1,162 @@
+import { test, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { GAME_CONFIG } from "@/types/game";
+import { getFormationSlots } from "@/lib/formations";
+import type { PublicGameState } from "@/types/game";
+import { createGame, joinGame, getGameState, getReplay, validateMatchTimings } from "@/lib/gameLogic";
+import { movePlayer, passBall, shoot } from "@/lib/gameActions";
+import { getGameStore } from "@/lib/gameStore";
+import { useMockClock, resetMockClock, startGame, loadGame, SEED } from "./helpers";
+
+beforeEach(useMockClock);
+afterEach(resetMockClock);
+
+// The parts of the state the simulation produces
+function pitch(state: PublicGameState) {
+  const { ball, teamA, teamB, score, status, restart, sentOff, matchTime, half, sidesSwapped } = state;
+  return { ball, teamA, teamB, score, status, restart, sentOff, matchTime, half, sidesSwapped };
+}
+
+test("replaying the start snapshot and the logged actions rebuilds the live state", async () => {
+  const gameId = await startGame();
+
+  // Everyone chases the ball; whoever has it passes or shoots. Odd tick
+  // lengths leave part of a step over between requests.
+  for (let round = 0; round < 40; round++) {
+    mock.timers.tick(170 + (round % 3) * 35);
+    const state = await getGameState(gameId);
+    assert.ok(state);
+    if (state.status === "finished") break;
+
+    for (const player of [...state.teamA, ...state.teamB]) {
+      if (state.ball.possessionPlayerId !== player.id) {
+        await movePlayer(gameId, player.id, state.ball.position.x, state.ball.position.y);
+      } else if (round % 2 === 0) {
+        const teammate = (player.team === "A" ? state.teamA : state.teamB).find(p => p.id !== player.id);
+        if (teammate) await passBall(gameId, player.id, teammate.id);
+      } else {
+        await shoot(gameId, player.id);
+      }
+    }
+  }
+
+  mock.timers.tick(500);
+  const live = await getGameState(gameId);
+  assert.ok(live);
+
+  const events = await getGameStore().events.list(gameId);
+  assert.ok(events.some(event => event.type === "action"), "the game should have logged actions");
+
+  const replayed = await getReplay(gameId);
+  assert.ok(replayed?.success && replayed.replay, replayed?.message);
+  assert.deepEqual(pitch(replayed.replay.gameState), pitch(live));
+});
+
+test("a ball put over the touchline is a throw-in for the other team", async () => {
+  const gameId = await startGame();
+  const game = await loadGame(gameId);
+  const [toucher] = game.teamA;
+
+  // Team A's player knocks it out over the bottom touchline, well away from everyone
+  for (const [index, player] of [...game.teamA, ...game.teamB].entries()) {
+    player.position = { x: 100 + index * 60, y: 100 };
+    player.targetPosition = undefined;
+  }
+  game.ball = {
+    position: { x: GAME_CONFIG.FIELD_WIDTH / 2, y: GAME_CONFIG.FIELD_HEIGHT - 40 },
+    velocity: { vx: 0, vy: 10 },
+    lastTouchPlayerId: toucher.id,
+  };
+  await getGameStore().save(game);
+
+  mock.timers.tick(GAME_CONFIG.SIMULATION_STEP * 10);
+  const state = await getGameState(gameId);
+
+  assert.equal(state?.restart?.type, "throwIn");
+  assert.equal(state?.restart?.team, "B");
+  assert.ok(state?.teamB.some(p => p.id === state.restart?.takerId));
+});
+
+test("a defender putting the ball over their own goal line gives away a corner", async () => {
+  const gameId = await startGame();
+  const game = await loadGame(gameId);
+  const [defender] = game.teamB; // team B defends the right-hand goal in the first half
+
+  for (const [index, player] of [...game.teamA, ...game.teamB].entries()) {
+    player.position = { x: 100 + index * 60, y: 100 };
+    player.targetPosition = undefined;
+  }
+  game.ball = {
+    position: { x: GAME_CONFIG.FIELD_WIDTH - 40, y: 60 },
+    velocity: { vx: 10, vy: 0 },
+    lastTouchPlayerId: defender.id,
+  };
+  await getGameStore().save(game);
+
+  mock.timers.tick(GAME_CONFIG.SIMULATION_STEP * 10);
+  const state = await getGameState(gameId);
+
+  assert.equal(state?.restart?.type, "corner");
+  assert.equal(state?.restart?.team, "A");
+});
+
+test("a lobby that waited for minutes kicks off on schedule once it fills", async () => {
+  const created = await createGame("A1", { playersPerTeam: 2 }, undefined, undefined, SEED);
+  assert.ok(created.success && created.gameId, created.message);
+  const gameId = created.gameId;
+
+  mock.timers.tick(5 * 60_000);
+  for (const [name, team] of [["A2", "A"], ["B1", "B"], ["B2", "B"]] as const) {
+    assert.ok((await joinGame(gameId, name, team)).success);
+  }
+
+  // Polled like a client would, the countdown takes COUNTDOWN_DURATION and no longer
+  for (let waited = 0; waited < GAME_CONFIG.COUNTDOWN_DURATION; waited += 250) {
+    mock.timers.tick(250);
+    await getGameState(gameId);
+  }
+  mock.timers.tick(GAME_CONFIG.SIMULATION_STEP);
+  const state = await getGameState(gameId);
+  assert.equal(state?.status, "kickoff");
+
+  const moved = await movePlayer(gameId, created.playerId!, 300, 300);
+  assert.ok(moved.success, moved.message);
+});
+
+test("create requests with impossible timings are rejected", () => {
+  assert.equal(validateMatchTimings(undefined).success, true);
+  assert.equal(validateMatchTimings({ matchDuration: 0, halves: 2, botFillTimeout: 30_000, spectatorDelay: 0 }).success, true);
+
+  for (const config of [
+    { matchDuration: -1 },
+    { matchDuration: Infinity },
+    { matchDuration: "300000" },
+    { halves: 3 },
+    { halves: "2" },
+    { botFillTimeout: NaN },
+    { botFillTimeout: -5 },
+    { spectatorDelay: Infinity },
+    { spectatorDelay: "10s" },
+  ]) {
+    assert.equal(validateMatchTimings(config).success, false, JSON.stringify(config));
+  }
+});
+
+test("a player asking for a role whose slots are taken plays the slot they are given", async () => {
+  // 2-1-1: keeper, two defenders, a midfielder and a striker; the creator takes the striker slot
+  const created = await createGame("A1", { playersPerTeam: 5, formation: "2-1-1" }, undefined, undefined, SEED);
+  assert.ok(created.success && created.gameId, created.message);
+
+  const striker = await joinGame(created.gameId, "A2", "A", "striker");
+  assert.ok(striker.success, striker.message);
+  assert.equal(striker.role, "defender");
+
+  const midfielder = await joinGame(created.gameId, "A3", "A", "midfielder");
+  assert.equal(midfielder.role, "midfielder");
+
+  const slots = getFormationSlots("2-1-1")!;
+  const game = await loadGame(created.gameId);
+  for (const player of game.teamA) {
+    assert.equal(player.role, slots[player.slot!].role, player.name);
+  }
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { mock } from "node:test";
+import { GAME_CONFIG } from "@/types/game";
+import type { GameState, Player, Position } from "@/types/game";
+import { createGame, joinGame, getGameState } from "@/lib/gameLogic";
+import { getGameStore } from "@/lib/gameStore";
+
+/**
+ * Shared setup for the tests. They all run on the in-memory store with
+ * Date mocked, so the simulation only moves when a test ticks the clock.
+ */
+
+process.env.GAME_STORE = "memory";
+
+export const SEED = 12345;
+export const STEP = GAME_CONFIG.SIMULATION_STEP;
+
+export function useMockClock() {
+  mock.timers.enable({ apis: ["Date"], now: 1_700_000_000_000 });
+}
+
+export function resetMockClock() {
+  mock.timers.reset();
+}
+
+/**
+ * A full game (2-a-side unless `config` says otherwise), through the
+ * countdown and kickoff and into play
+ */
+export async function startGame(config: Parameters<typeof createGame>[1] = {}): Promise<string> {
+  const playersPerTeam = config.playersPerTeam ?? 2;
+  const created = await createGame("A1", { playersPerTeam, ...config }, undefined, undefined, SEED);
+  assert.ok(created.success && created.gameId, created.message);
+  const gameId = created.gameId;
+
+  for (let i = 1; i < playersPerTeam * 2; i++) {
+    const team = i < playersPerTeam ? "A" : "B";
+    const joined = await joinGame(gameId, `${team}${i + 1}`, team);
+    assert.ok(joined.success, joined.message);
+  }
+
+  mock.timers.tick(GAME_CONFIG.COUNTDOWN_DURATION + GAME_CONFIG.KICKOFF_TIMEOUT + STEP);
+  const state = await getGameState(gameId);
+  assert.equal(state?.status, "playing");
+  return gameId;
+}
+
+export async function loadGame(gameId: string): Promise<GameState> {
+  const game = await getGameStore().load(gameId);
+  assert.ok(game);
+  return game;
+}
+
+/**
+ * A game in play, loaded for the pure engine functions, with every player
+ * parked along the top of the pitch and the ball loose at the centre spot
+ */
+export async function playingState(config: Parameters<typeof createGame>[1] = {}): Promise<GameState> {
+  const game = await loadGame(await startGame(config));
+
+  for (const [index, player] of [...game.teamA, ...game.teamB].entries()) {
+    park(player, { x: 100 + index * 60, y: 100 });
+  }
+  game.ball = {
+    position: { x: GAME_CONFIG.FIELD_WIDTH / 2, y: GAME_CONFIG.FIELD_HEIGHT / 2 },
+    velocity: { vx: 0, vy: 0 },
+  };
+  return game;
+}
+
+export function park(player: Player, position: Position) {
+  player.position = { ...position };
+  player.targetPosition = undefined;
+  player.hasBall = false;
+}
+
+export function keeperOf(game: GameState, team: "A" | "B"): Player {
+  const keeper = (team === "A" ? game.teamA : game.teamB).find(p => p.role === "goalkeeper");
+  assert.ok(keeper, `team ${team} has no goalkeeper`);
+  return keeper;
+}
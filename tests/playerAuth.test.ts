@@ -0,0 +1,67 @@
+import { test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createGame, joinGame, joinAsTeamController } from "@/lib/gameLogic";
+import { authenticatePlayer, authenticateController } from "@/lib/playerAuth";
+import type { TeamId } from "@/types/game";
+import { useMockClock, resetMockClock } from "./helpers";
+
+beforeEach(useMockClock);
+afterEach(resetMockClock);
+
+function statusOf(result: { success: true } | { success: false; status: number }): number {
+  return result.success ? 200 : result.status;
+}
+
+async function lobby() {
+  const created = await createGame("A1", { playersPerTeam: 2 });
+  assert.ok(created.success && created.gameId, created.message);
+  return { gameId: created.gameId, playerId: created.playerId!, playerToken: created.playerToken! };
+}
+
+test("a player's own token authenticates them and nobody else", async () => {
+  const { gameId, playerId, playerToken } = await lobby();
+  const other = await joinGame(gameId, "A2", "A");
+  assert.ok(other.success);
+
+  assert.deepEqual(await authenticatePlayer(gameId, playerId, playerToken), { success: true });
+  assert.equal(statusOf(await authenticatePlayer(gameId, playerId, other.playerToken)), 403);
+  assert.equal(statusOf(await authenticatePlayer(gameId, other.playerId!, playerToken)), 403);
+});
+
+test("a missing token is a 401 and an unknown game a 404", async () => {
+  const { gameId, playerId } = await lobby();
+
+  assert.equal(statusOf(await authenticatePlayer(gameId, playerId, undefined)), 401);
+  assert.equal(statusOf(await authenticatePlayer(gameId, playerId, "")), 401);
+  assert.equal(statusOf(await authenticatePlayer("no-such-game", playerId, "token")), 404);
+});
+
+test("ids that name Object.prototype members are rejected, not thrown on", async () => {
+  const { gameId, playerToken } = await lobby();
+
+  for (const playerId of ["__proto__", "constructor", "hasOwnProperty", "toString"]) {
+    const result = await authenticatePlayer(gameId, playerId, playerToken);
+    assert.equal(statusOf(result), 403, playerId);
+  }
+  assert.equal(statusOf(await authenticateController(gameId, "__proto__" as TeamId, playerToken)), 403);
+});
+
+test("a controller token works for its own side's players only", async () => {
+  const created = await createGame(null, { playersPerTeam: 2 });
+  assert.ok(created.success && created.gameId);
+  const gameId = created.gameId;
+
+  const home = await joinAsTeamController(gameId, "Home", "A");
+  const away = await joinAsTeamController(gameId, "Away", "B");
+  assert.ok(home.success && away.success);
+
+  assert.deepEqual(await authenticateController(gameId, "A", home.controllerToken), { success: true });
+  assert.equal(statusOf(await authenticateController(gameId, "B", home.controllerToken)), 403);
+
+  for (const playerId of home.playerIds!) {
+    assert.deepEqual(await authenticatePlayer(gameId, playerId, home.controllerToken), { success: true });
+  }
+  for (const playerId of away.playerIds!) {
+    assert.equal(statusOf(await authenticatePlayer(gameId, playerId, home.controllerToken)), 403);
+  }
+});
@@ -0,0 +1,79 @@
+import { test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { GAME_CONFIG } from "@/types/game";
+import type { GameState, TeamId } from "@/types/game";
+import { expectedScore, kFactor, recordRatings, getRating, ratingId } from "@/lib/ratings";
+import { useMockClock, resetMockClock, startGame, loadGame } from "./helpers";
+
+beforeEach(useMockClock);
+afterEach(resetMockClock);
+
+// A 2-a-side game finished with `winner` (none = draw), players linked to
+// `handles` in roster order, A first; null leaves a player anonymous
+async function finished(winner: TeamId | undefined, handles: (string | null)[]): Promise<GameState> {
+  const game = await loadGame(await startGame());
+  [...game.teamA, ...game.teamB].forEach((player, index) => {
+    player.handle = handles[index] ?? undefined;
+  });
+  game.status = "finished";
+  game.winner = winner;
+  game.finishedAt = Date.now();
+  return game;
+}
+
+function finish(game: GameState) {
+  return [{ tick: 0, at: Date.now(), type: "finish" as const, winner: game.winner, score: game.score }];
+}
+
+async function ratingOf(kind: "profile" | "team", ...handles: string[]) {
+  return (await getRating(ratingId(kind, handles)))?.rating;
+}
+
+test("expected score and K follow the Elo curve", () => {
+  assert.equal(expectedScore(1500, 1500), 0.5);
+  assert.ok(Math.abs(expectedScore(1900, 1500) - 10 / 11) < 1e-9);
+  assert.ok(Math.abs(expectedScore(1500, 1700) + expectedScore(1700, 1500) - 1) < 1e-9);
+
+  assert.equal(kFactor(0), GAME_CONFIG.RATING_K_PROVISIONAL);
+  assert.equal(kFactor(GAME_CONFIG.RATING_PROVISIONAL_GAMES - 1), GAME_CONFIG.RATING_K_PROVISIONAL);
+  assert.equal(kFactor(GAME_CONFIG.RATING_PROVISIONAL_GAMES), GAME_CONFIG.RATING_K);
+});
+
+test("a win between new sides moves every profile and composition by half the provisional K", async () => {
+  const game = await finished("A", ["ann", "bob", "cat", "dan"]);
+  await recordRatings(game, finish(game));
+
+  const swing = GAME_CONFIG.RATING_K_PROVISIONAL / 2;
+  assert.equal(await ratingOf("profile", "ann"), GAME_CONFIG.RATING_INITIAL + swing);
+  assert.equal(await ratingOf("profile", "bob"), GAME_CONFIG.RATING_INITIAL + swing);
+  assert.equal(await ratingOf("profile", "cat"), GAME_CONFIG.RATING_INITIAL - swing);
+  assert.equal(await ratingOf("team", "bob", "ann"), GAME_CONFIG.RATING_INITIAL + swing);
+  assert.equal(await ratingOf("team", "cat", "dan"), GAME_CONFIG.RATING_INITIAL - swing);
+
+  // The same match is never counted twice
+  await recordRatings(game, finish(game));
+  const ann = await getRating(ratingId("profile", ["ann"]));
+  assert.equal(ann?.games, 1);
+  assert.equal(ann?.rating, GAME_CONFIG.RATING_INITIAL + swing);
+});
+
+test("a draw costs the stronger side, and a side with an anonymous player has no team rating", async () => {
+  const first = await finished("A", ["eve", "fay", "gus", "hal"]);
+  await recordRatings(first, finish(first));
+
+  // eve (1520) and an anonymous player (1500) draw with gus (1480) and hal (1480)
+  const draw = await finished(undefined, ["eve", null, "gus", "hal"]);
+  await recordRatings(draw, finish(draw));
+
+  const change = GAME_CONFIG.RATING_K_PROVISIONAL * (0.5 - expectedScore(1510, 1480));
+  assert.equal(await ratingOf("profile", "eve"), Math.round((1520 + change) * 10) / 10);
+  assert.equal(await ratingOf("profile", "gus"), Math.round((1480 - change) * 10) / 10);
+  assert.ok(change < 0);
+  assert.equal(await getRating(ratingId("team", ["eve"])), null);
+});
+
+test("matches that didn't finish are not rated", async () => {
+  const game = await finished("A", ["ivy", "jon", "kim", "lee"]);
+  await recordRatings(game, []);
+  assert.equal(await getRating(ratingId("profile", ["ivy"])), null);
+});
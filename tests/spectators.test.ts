@@ -0,0 +1,51 @@
+import { test, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { GAME_CONFIG } from "@/types/game";
+import { createGame, joinGame, listActiveGames } from "@/lib/gameLogic";
+import { authenticateLiveViewer } from "@/lib/playerAuth";
+import { useMockClock, resetMockClock } from "./helpers";
+
+beforeEach(useMockClock);
+afterEach(resetMockClock);
+
+async function fullGame(spectatorDelay: number) {
+  const created = await createGame("A1", { playersPerTeam: 1, spectatorDelay });
+  assert.ok(created.success && created.gameId, created.message);
+  const joined = await joinGame(created.gameId, "B1", "B");
+  assert.ok(joined.success, joined.message);
+  mock.timers.tick(GAME_CONFIG.COUNTDOWN_DURATION);
+  return { gameId: created.gameId, playerId: created.playerId!, playerToken: created.playerToken!, other: joined };
+}
+
+test("a delayed game's live endpoints only answer its players", async () => {
+  const { gameId, playerId, playerToken, other } = await fullGame(5000);
+
+  const anonymous = await authenticateLiveViewer(gameId, new URLSearchParams());
+  assert.equal(anonymous.success, false);
+  assert.equal(!anonymous.success && anonymous.status, 401);
+
+  const wrong = await authenticateLiveViewer(gameId, new URLSearchParams({ playerId, playerToken: other.playerToken! }));
+  assert.equal(!wrong.success && wrong.status, 403);
+
+  assert.deepEqual(await authenticateLiveViewer(gameId, new URLSearchParams({ playerId, playerToken })), { success: true });
+});
+
+test("games without a delay are open to anyone", async () => {
+  const { gameId } = await fullGame(0);
+  assert.deepEqual(await authenticateLiveViewer(gameId, new URLSearchParams()), { success: true });
+});
+
+test("the games list leaves out positions of delayed games in play", async () => {
+  const delayed = await fullGame(5000);
+  const open = await fullGame(0);
+
+  const games = await listActiveGames();
+  const delayedListing = games.find(game => game.gameId === delayed.gameId);
+  const openListing = games.find(game => game.gameId === open.gameId);
+  assert.ok(delayedListing && openListing);
+
+  assert.equal("ball" in delayedListing, false);
+  assert.equal(delayedListing.teamA.length, 1);
+  assert.equal("position" in delayedListing.teamA[0], false);
+  assert.equal("ball" in openListing, true);
+});
@@ -0,0 +1,49 @@
+import { test, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { GAME_CONFIG } from "@/types/game";
+import { toWire, diffState, applyPatch, rememberVersion, recallVersion } from "@/lib/stateDelta";
+import { getGameState } from "@/lib/gameLogic";
+import { useMockClock, resetMockClock, startGame } from "./helpers";
+
+beforeEach(useMockClock);
+afterEach(resetMockClock);
+
+test("applying the diff between two versions of a game gives the later version", async () => {
+  const gameId = await startGame();
+  const before = await getGameState(gameId);
+  mock.timers.tick(GAME_CONFIG.SIMULATION_STEP * 20);
+  const after = await getGameState(gameId);
+  assert.ok(before && after);
+
+  const from = toWire(before);
+  const to = toWire(after);
+  const ops = diffState(from, to);
+  assert.ok(ops.length > 0);
+  assert.deepEqual(applyPatch(from, ops), to);
+  assert.deepEqual(from, toWire(before), "applyPatch must not modify its input");
+});
+
+test("keys with slashes and tildes, added and removed keys and resized arrays round-trip", () => {
+  const from = { "a/b": 1, "c~d": [1, 2, 3], gone: { x: 1 }, nested: { list: [{ id: "p1" }] } };
+  const to = { "a/b": 2, "c~d": [1, 2], added: null, nested: { list: [{ id: "p2" }] } };
+
+  const ops = diffState(from, to);
+  assert.ok(ops.some(op => op.path === "/a~1b"));
+  assert.ok(ops.some(op => op.op === "remove" && op.path === "/gone"));
+  assert.deepEqual(applyPatch(from, ops), to);
+});
+
+test("a patch through a missing parent is rejected", () => {
+  assert.throws(() => applyPatch({ a: 1 }, [{ op: "replace", path: "/b/c", value: 1 }]), /Invalid patch path/);
+  assert.throws(() => applyPatch({ a: 1 }, [{ op: "remove", path: "" }]));
+});
+
+test("a game's history is dropped once nobody has streamed it for a while", () => {
+  rememberVersion("idle-game", 1, { v: 1 });
+  assert.deepEqual(recallVersion("idle-game", 1), { v: 1 });
+
+  mock.timers.tick(GAME_CONFIG.STREAM_HISTORY_IDLE + 1);
+  rememberVersion("other-game", 1, { v: 1 });
+  assert.equal(recallVersion("idle-game", 1), undefined);
+  assert.deepEqual(recallVersion("other-game", 1), { v: 1 });
+});
@@ -0,0 +1,93 @@
+import { test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { GAME_CONFIG } from "@/types/game";
+import type { PublicTournament, TournamentFixture, TournamentFormat } from "@/types/game";
+import { createTournament, registerEntrant, startTournament, computeStandings, computeBracket } from "@/lib/tournaments";
+import { useMockClock, resetMockClock } from "./helpers";
+
+beforeEach(useMockClock);
+afterEach(resetMockClock);
+
+async function started(format: TournamentFormat, entrants: number): Promise<PublicTournament> {
+  const created = await createTournament(`${format} cup`, format, { playersPerTeam: 1 });
+  assert.ok(created.success && created.tournament, created.message);
+  const { tournamentId } = created.tournament;
+
+  for (let i = 1; i <= entrants; i++) {
+    assert.ok((await registerEntrant(tournamentId, `E${i}`)).success);
+  }
+  const result = await startTournament(tournamentId);
+  assert.ok(result.success && result.tournament, result.message);
+  return result.tournament;
+}
+
+test("a round robin pairs every entrant with every other exactly once", async () => {
+  const tournament = await started("roundRobin", 5);
+  const ids = tournament.entrants.map(entrant => entrant.entrantId);
+
+  const pairs = tournament.fixtures.map(fixture => [fixture.home, fixture.away].sort().join());
+  assert.equal(pairs.length, 10);
+  assert.equal(new Set(pairs).size, 10);
+
+  // Five rounds with an odd number of entrants, one sitting out each
+  const rounds = [...new Set(tournament.fixtures.map(fixture => fixture.round))];
+  assert.equal(rounds.length, 5);
+  for (const round of rounds) {
+    const playing = tournament.fixtures.filter(f => f.round === round).flatMap(f => [f.home, f.away]);
+    assert.equal(new Set(playing).size, 4, `round ${round}`);
+  }
+  for (const id of ids) {
+    assert.equal(tournament.fixtures.filter(f => f.home === id || f.away === id).length, 4);
+  }
+});
+
+test("a knockout is padded to a power of two with byes for the top seeds", async () => {
+  const tournament = await started("knockout", 5);
+  const [e1, e2, e3, e4, e5] = tournament.entrants.map(entrant => entrant.entrantId);
+  const bracket = computeBracket(tournament);
+
+  assert.deepEqual(bracket.map(round => round.name), ["Quarter-finals", "Semi-finals", "Final"]);
+  const [quarters, semis] = bracket;
+  assert.deepEqual(quarters.fixtures.filter(f => f.status === "bye").map(f => f.winner).sort(), [e1, e2, e3].sort());
+
+  const played = quarters.fixtures.filter(f => f.status !== "bye");
+  assert.equal(played.length, 1);
+  assert.deepEqual([played[0].home, played[0].away], [e4, e5]);
+
+  // Bye winners are already through; seed 1 waits for the 4 v 5 winner
+  assert.deepEqual(semis.fixtures.map(f => [f.home, f.away]), [[e1, null], [e2, e3]]);
+});
+
+test("the table ranks on points, goal difference, goals, then head to head", () => {
+  const entrants = ["a", "b", "c", "d"].map((entrantId, index) => ({ entrantId, name: entrantId.toUpperCase(), registeredAt: index }));
+  const result = (home: string, away: string, teamA: number, teamB: number): TournamentFixture => ({
+    fixtureId: `${home}-${away}`,
+    round: 1,
+    slot: 0,
+    home,
+    away,
+    status: "finished",
+    score: { teamA, teamB },
+    winner: teamA > teamB ? home : teamB > teamA ? away : undefined,
+  });
+
+  const tournament = {
+    entrants,
+    fixtures: [
+      result("c", "b", 1, 0),
+      result("b", "d", 2, 1),
+      result("a", "c", 2, 1),
+      result("d", "a", 0, 0),
+      { fixtureId: "unplayed", round: 2, slot: 0, home: "a", away: "b", status: "scheduled" },
+    ],
+  } as unknown as PublicTournament;
+
+  const table = computeStandings(tournament);
+  assert.deepEqual(table.map(row => row.entrantId), ["a", "c", "b", "d"], "c is level with b but won their game");
+  assert.deepEqual(table.map(row => row.rank), [1, 2, 3, 4]);
+
+  const [a, c, b] = table;
+  assert.deepEqual([a.played, a.won, a.drawn, a.lost], [2, 1, 1, 0]);
+  assert.equal(a.points, GAME_CONFIG.TOURNAMENT_POINTS_WIN + GAME_CONFIG.TOURNAMENT_POINTS_DRAW);
+  assert.deepEqual([b.points, b.goalsFor, b.goalsAgainst, b.goalDifference], [c.points, c.goalsFor, c.goalsAgainst, c.goalDifference]);
+});
@@ -5,6 +5,10 @@ export const GAME_CONFIG = {
   FIELD_HEIGHT: 800,
   GOAL_WIDTH: 150,
   GOAL_HEIGHT: 20,
+  CENTRE_CIRCLE_RADIUS: 80,
+  PENALTY_AREA_DEPTH: 160, // how far the box reaches out from the goal line
+  PENALTY_AREA_WIDTH: 400, // centred on the goal
+  PENALTY_SPOT_DISTANCE: 110, // from the goal line
   PLAYER_RADIUS: 15,
   BALL_RADIUS: 8,
   
@@ -25,24 +29,101 @@ export const GAME_CONFIG = {
   PASS_COOLDOWN: 500,
   SHOOT_COOLDOWN: 1000,
   TACKLE_COOLDOWN: 2000,
+  SAVE_COOLDOWN: 1000,
   MOVE_COOLDOWN: 100,
   
   // Distances
   POSSESSION_DISTANCE: 25, // distance to claim ball
   TACKLE_DISTANCE: 30,
   PASS_INTERCEPT_DISTANCE: 20,
+  GOALKEEPER_CLAIM_DISTANCE: 45, // a keeper in their own box gathers loose balls from further away
+  SAVE_DISTANCE: 60, // how far a keeper can dive for a moving ball
   
   // Probabilities
   TACKLE_SUCCESS_RATE: 0.6,
+  SAVE_BASE_RATE: 0.9, // slow ball straight at the keeper
+  SAVE_SPEED_PENALTY: 0.5, // share of the chance lost to a MAX_SHOOT_SPEED shot
+  SAVE_ANGLE_PENALTY: 0.5, // share lost when the ball passes at 90 degrees or more from the keeper
+  FOUL_BASE_RATE: 0.15, // chance a missed tackle is a foul
+  FOUL_BEHIND_PENALTY: 0.4, // added for a tackle straight into the back of a moving player
+  FOUL_SPEED_PENALTY: 0.2, // added for a tackle while running at MAX_PLAYER_SPEED
+  FOUL_REPEAT_PENALTY: 0.1, // added per foul already committed this match
+  FOULS_BEFORE_CAUTION: 3, // persistent fouling - the next foul is a yellow card
+  RECKLESS_TACKLE_ANGLE: 0.5, // from-behind factor (0-1) above which a foul is a yellow card
   
   // Timing
   COUNTDOWN_DURATION: 3000, // 3 seconds
+  KICKOFF_TIMEOUT: 5000, // ms before play resumes anyway if the kicker never kicks
+  RESTART_TIMEOUT: 5000, // same for throw-ins, goal kicks and corners
+  GOAL_KICK_DISTANCE: 50, // goal kicks are taken this far out from the goal line
+  DEFAULT_MATCH_DURATION: 300000, // 5 minutes of playing time
   SIMULATION_STEP: 50, // ms between physics updates
+  MAX_CATCHUP_STEPS: 200, // max steps replayed per simulate() call (10s of game time)
+
+  // Game loop (GAME_LOOP=in-process|worker)
+  SNAPSHOT_INTERVAL: 200, // ms between persisted snapshots of a running game
+  LOOP_REFRESH_INTERVAL: 1000, // ms between scans for newly started games
+  ACTION_TIMEOUT: 2000, // ms a queued action waits for the loop before giving up
+
+  // Optimistic concurrency
+  ACTION_MAX_RETRIES: 3, // retries after losing a version check
+  ACTION_RETRY_DELAY: 15, // ms, multiplied by the attempt number
+
+  // Player profiles
+  PROFILE_RECENT_MATCHES: 20, // match summaries kept on a profile
+
+  // Tournaments
+  TOURNAMENT_MAX_ENTRANTS: 32,
+  TOURNAMENT_POINTS_WIN: 3,
+  TOURNAMENT_POINTS_DRAW: 1,
+
+  // Matchmaking
+  MATCHMAKING_WAIT: 20000, // ms an enqueue/poll request waits for a match before returning
+  MATCHMAKING_POLL_INTERVAL: 250, // ms between checks while waiting
+  MATCHMAKING_TICKET_TTL: 60000, // ms without a poll before a waiting ticket is dropped
+  MATCHMAKING_CLAIM_TTL: 30000, // ms a ticket can stay claimed by a matchmaker before it goes back to waiting
+  MATCHMAKING_MAX_TEAM_SIZE: 5,
+
+  // Bots
+  BOT_TICK: 100, // ms between bot runner passes
+  BOT_THINK_INTERVAL: { easy: 1000, medium: 500, hard: 250 }, // ms between a bot's decisions
+  BOT_MISTAKE_RATE: { easy: 0.3, medium: 0.1, hard: 0 }, // chance a bot hesitates instead of acting
+  BOT_MOVE_SPEED: { easy: 15, medium: 20, hard: 25 },
+  BOT_SHOOT_SPEED: { easy: 15, medium: 25, hard: 35 },
+
+  // Game stream (SSE)
+  STREAM_TICK: 250, // ms between version checks
+  STREAM_KEYFRAME_INTERVAL: 10000, // ms between full states; deltas in between
+  STREAM_HISTORY: 120, // versions per game kept for Last-Event-ID resume
+  STREAM_HISTORY_IDLE: 10 * 60 * 1000, // ms without a stream before a game's history is dropped
+  STREAM_KEEPALIVE: 15000, // ms between keep-alive comments when nothing changes
+  STREAM_FINAL_HOLD: 5000, // ms the stream stays open after full time
+
+  BATCH_MAX_ACTIONS: 22, // per batch request - two for every player of an 11-a-side team
+
+  // Agent WebSocket
+  SOCKET_TICK: 50, // ms between perception pushes (one SIMULATION_STEP)
+  SOCKET_AUTH_TIMEOUT: 5000, // ms to send the auth message after connecting
+  SOCKET_MAX_BUFFERED: 1000000, // bytes queued on a socket before pushes are skipped
+
+  // Spectators
+  SPECTATOR_TICK: 250, // ms between a game's broadcast frames
+  SPECTATOR_MAX_DELAY: 60000, // ms
+  SPECTATOR_KEEPALIVE: 15000, // ms between keep-alive comments on a quiet stream
+  SPECTATOR_FINAL_HOLD: 5000, // ms the stream stays open after the final frame
+
+  // Ratings (Elo)
+  RATING_INITIAL: 1500,
+  RATING_K: 20, // max points won or lost per match once established
+  RATING_K_PROVISIONAL: 40, // K for the first RATING_PROVISIONAL_GAMES games
+  RATING_PROVISIONAL_GAMES: 10,
+  RATING_HISTORY_LENGTH: 50, // rating changes kept on each rating
 } as const;
 
 export type TeamId = 'A' | 'B';
 export type PlayerRole = 'goalkeeper' | 'defender' | 'midfielder' | 'striker';
-export type GameStatus = 'waiting' | 'countdown' | 'playing' | 'finished';
+export type GameStatus = 'waiting' | 'countdown' | 'kickoff' | 'playing' | 'finished';
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
 
 export interface Position {
   x: number;
@@ -64,12 +145,41 @@ export interface Player {
   speed?: number; // Custom movement speed (pixels per simulation step)
   hasBall: boolean;
   lastActionTime?: number;
-  stats: {
-    goals: number;
-    assists: number;
-    passes: number;
-    tackles: number;
-  };
+  stats: PlayerStats;
+  yellowCards: number; // a second yellow sends the player off
+  handle?: string; // linked PlayerProfile - career stats are rolled up at full time
+  bot?: BotDifficulty; // set on server-controlled bot players
+  slot?: number; // index of the player's slot in their team's formation
+}
+
+// A place in a formation, laid out for team A attacking the right-hand goal
+export interface FormationSlot {
+  role: PlayerRole;
+  position: Position;
+}
+
+// One credential playing a whole side (see joinAsTeamController in lib/gameLogic.ts)
+export interface TeamController {
+  name: string;
+  formation?: string; // the side's formation name, if its team size has any
+  playerIds: string[];
+}
+
+export interface PlayerStats {
+  goals: number;
+  assists: number; // made the last teammate pass before a goal
+  passes: number; // attempted
+  passesCompleted: number; // picked up by a teammate
+  interceptions: number; // opponent passes picked up
+  shots: number;
+  shotsOnTarget: number; // scored, or stopped by the keeper
+  tackles: number; // attempted
+  tacklesWon: number;
+  tacklesLost: number;
+  saves: number;
+  fouls: number;
+  possessionTime: number; // ms on the ball
+  distanceCovered: number; // pixels
 }
 
 export interface Ball {
@@ -77,11 +187,45 @@ export interface Ball {
   velocity: Velocity;
   possessionPlayerId?: string;
   lastTouchPlayerId?: string;
+  inFlight?: { kind: 'pass' | 'shot'; playerId: string; team: TeamId; beaten?: string[] }; // released and not yet picked up; beaten = keepers it already got past
+  lastPass?: { playerId: string; team: TeamId }; // last completed pass - credited with the assist if that team scores
+}
+
+// What happens when the clock runs out with the scores level
+export type Tiebreak = 'draw' | 'goldenGoal';
+
+export type RestartType = 'throwIn' | 'goalKick' | 'corner' | 'freeKick' | 'indirectFreeKick' | 'penalty';
+export type CardType = 'yellow' | 'red';
+
+// How restarts are named in action messages, perception and the game page
+export const RESTART_NAMES: Record<RestartType, string> = {
+  throwIn: 'throw-in',
+  goalKick: 'goal kick',
+  corner: 'corner',
+  freeKick: 'free kick',
+  indirectFreeKick: 'indirect free kick',
+  penalty: 'penalty',
+};
+
+// Ball out of play, waiting for `team` to put it back in
+export interface Restart {
+  type: RestartType;
+  team: TeamId;
+  takerId?: string; // player placed on the spot with the ball
+  position: Position;
+  awardedAt: number;
 }
 
 export interface GameConfig {
   playersPerTeam: number;
   goalsToWin: number;
+  matchDuration: number; // ms of playing time, 0 = no time limit
+  halves: 1 | 2; // with 2, teams swap sides at half-time
+  tiebreak: Tiebreak;
+  offside: boolean; // passes to a player in an offside position give away an indirect free kick
+  botFillTimeout: number; // ms in the lobby before bots take the empty slots, 0 = never
+  botDifficulty: BotDifficulty; // for bots added by the lobby timeout
+  spectatorDelay: number; // ms spectators lag behind the live game
 }
 
 export interface Score {
@@ -104,6 +248,251 @@ export interface GameState {
   lastUpdate: number;
   version: number;
   countdownStartTime?: number;
+  kickoffTeam?: TeamId; // set while status is 'kickoff'
+  kickoffStartTime?: number;
+  restart?: Restart; // set from the moment the ball goes out (or a foul) until the restart is taken
+  sentOff: Player[]; // taken off the roster after a second yellow
+  matchTime: number; // ms of playing time elapsed, advanced by the simulation
+  half: 1 | 2;
+  sidesSwapped: boolean; // true while team A defends the right-hand goal
+  seed: number; // Per-game PRNG seed - same seed + action log replays the same match
+  rngState: number; // Current PRNG state, advanced by every random draw
+  formations?: Partial<Record<TeamId, string>>; // formation name per side (see lib/formations.ts)
+  playerTokens: Record<string, string>; // playerId -> SHA-256 of that player's secret token
+  controllers?: Partial<Record<TeamId, TeamController>>; // sides claimed by a team controller
+  controllerTokens?: Partial<Record<TeamId, string>>; // side -> SHA-256 of its controller's token
+  tournament?: TournamentLink; // set on games created for a tournament fixture
+}
+
+// What clients get from /state, /stream, /replay and the games list.
+// Tokens and PRNG state stay on the server (see sanitizeGameState).
+export type PublicGameState = Omit<GameState, 'playerTokens' | 'controllerTokens' | 'seed' | 'rngState'>;
+
+// A game in the games list. Live games that delay their spectators are
+// listed without anything that moves: no ball, and rosters without positions
+export type RosterEntry = Pick<Player, 'id' | 'name' | 'team' | 'role' | 'handle' | 'bot' | 'slot'>;
+export type GameListing = Omit<PublicGameState, 'teamA' | 'teamB' | 'ball' | 'restart' | 'sentOff'> & {
+  teamA: RosterEntry[];
+  teamB: RosterEntry[];
+};
+
+// Player actions - the same shape is used for direct calls and the loop's queue
+export type GameAction =
+  | { type: 'move'; playerId: string; targetX: number; targetY: number; speed?: number }
+  | { type: 'pass'; playerId: string; targetPlayerId: string; speed?: number }
+  | { type: 'shoot'; playerId: string; speed?: number }
+  | { type: 'tackle'; playerId: string; targetPlayerId: string }
+  | { type: 'save'; playerId: string };
+
+export type GameActionType = GameAction['type'];
+
+// Match event log - accepted actions plus what the engine did with them.
+// `tick` counts SIMULATION_STEPs since the game was created; `at` is the
+// exact time in ms, which replay needs for cooldowns.
+export type GameEvent = { tick: number; at: number } & (
+  | { type: 'start'; state: GameState } // snapshot when the teams are full and the countdown begins
+  | { type: 'action'; action: GameAction }
+  | { type: 'kickoff'; team: TeamId }
+  | { type: 'possession'; playerId: string; team: TeamId }
+  | { type: 'outOfPlay'; restart: RestartType; team: TeamId; takerId?: string; position: Position }
+  | { type: 'tackle'; playerId: string; targetPlayerId: string; success: boolean }
+  | { type: 'save'; playerId: string; success: boolean; chance: number }
+  | { type: 'offside'; playerId: string; passerId: string; team: TeamId; position: Position } // team = awarded the free kick
+  | { type: 'foul'; playerId: string; targetPlayerId: string; restart: 'freeKick' | 'penalty'; position: Position }
+  | { type: 'card'; playerId: string; team: TeamId; card: CardType; sentOff: boolean } // red = second yellow
+  | { type: 'goal'; team: TeamId; scorerId?: string; assistId?: string; score: Score }
+  | { type: 'halftime'; score: Score }
+  | { type: 'goldenGoal'; score: Score } // full time with the scores level, next goal wins
+  | { type: 'finish'; winner?: TeamId; score: Score } // no winner = draw
+);
+
+export type GameEventType = GameEvent['type'];
+
+// State of a match rebuilt from its event log at one tick
+export interface ReplayFrame {
+  tick: number;
+  startTick: number; // tick of the `start` snapshot
+  endTick: number; // last tick of the match (or of the latest save while it's still running)
+  gameState: PublicGameState;
+  events: GameEvent[]; // everything up to `tick`, without the `start` snapshot
+}
+
+// GET /api/game/[gameId]/stats - per-player stats plus team totals
+export interface TeamStats extends PlayerStats {
+  passCompletion: number | null; // passesCompleted / passes, null before the first pass
+  possession: number | null; // share of the match's possession time, null before anyone has had the ball
+}
+
+export interface MatchStats {
+  gameId: string;
+  status: GameStatus;
+  score: Score;
+  matchTime: number;
+  teams: Record<TeamId, TeamStats>;
+  players: Array<{
+    id: string;
+    name: string;
+    team: TeamId;
+    role: PlayerRole;
+    sentOff: boolean;
+    stats: PlayerStats;
+  }>;
+}
+
+// Persistent identity across matches (models/PlayerProfile.ts)
+export interface CareerStats extends PlayerStats {
+  matches: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  yellowCards: number;
+  redCards: number;
+  timePlayed: number; // ms of match time
+}
+
+export interface ProfileMatch {
+  gameId: string;
+  finishedAt: number;
+  team: TeamId;
+  result: 'win' | 'draw' | 'loss';
+  score: Score;
+  sentOff: boolean;
+  stats: PlayerStats;
+}
+
+export interface PlayerProfile {
+  handle: string; // stable, unique, lower-case
+  displayName: string;
+  tokenHash: string; // SHA-256 of the secret profileToken needed to link the profile to a game
+  createdAt: number;
+  updatedAt: number;
+  career: CareerStats;
+  matchIds: string[]; // every game counted, so a match is never rolled up twice
+  recentMatches: ProfileMatch[]; // newest first, up to PROFILE_RECENT_MATCHES
+}
+
+export type PublicPlayerProfile = Omit<PlayerProfile, 'tokenHash' | 'matchIds'>;
+
+// A rating belongs to a single profile or to a team composition (the set of
+// profiles that played a match together on one side)
+export type RatingKind = 'profile' | 'team';
+
+export interface RatingChange {
+  gameId: string;
+  at: number;
+  before: number;
+  after: number;
+  opponentRating: number;
+  result: ProfileMatch['result'];
+}
+
+export interface Rating {
+  id: string; // "profile:<handle>" or "team:<handle>+<handle>..." (handles sorted)
+  kind: RatingKind;
+  handles: string[];
+  rating: number;
+  peak: number;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  updatedAt: number;
+  matchIds: string[]; // every game counted, so a match is never rated twice
+  history: RatingChange[]; // newest first, up to RATING_HISTORY_LENGTH
+}
+
+export type PublicRating = Omit<Rating, 'matchIds'>;
+
+export type TournamentFormat = 'roundRobin' | 'knockout';
+
+// registering -> running (fixtures generated) -> finished
+export type TournamentStatus = 'registering' | 'running' | 'finished';
+
+// The game settings every fixture is created with
+export type TournamentGameConfig = Pick<GameConfig, 'playersPerTeam' | 'goalsToWin' | 'matchDuration' | 'halves' | 'tiebreak' | 'offside'>;
+
+export interface TournamentEntrant {
+  entrantId: string;
+  name: string;
+  tokenHash: string; // SHA-256 of the entrantToken its agents join fixtures with
+  registeredAt: number;
+}
+
+// pending: waiting for an earlier knockout result
+// scheduled: both entrants known; gameId is set once the game is created
+export type FixtureStatus = 'pending' | 'scheduled' | 'finished' | 'bye';
+
+export interface TournamentFixture {
+  fixtureId: string;
+  round: number; // from 1
+  slot: number; // position within the round; knockout winners go to slot / 2 of the next round
+  home: string | null; // entrantId, playing as team A
+  away: string | null; // entrantId, playing as team B
+  status: FixtureStatus;
+  gameId?: string;
+  score?: Score;
+  winner?: string; // entrantId; unset for a draw
+}
+
+export interface Tournament {
+  tournamentId: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  config: TournamentGameConfig;
+  organizerTokenHash: string; // SHA-256 of the organizerToken needed to start the tournament
+  entrants: TournamentEntrant[];
+  fixtures: TournamentFixture[];
+  winner?: string; // entrantId
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  version: number;
+}
+
+export type PublicTournamentEntrant = Omit<TournamentEntrant, 'tokenHash'>;
+
+export type PublicTournament = Omit<Tournament, 'organizerTokenHash' | 'entrants'> & {
+  entrants: PublicTournamentEntrant[];
+};
+
+export interface TournamentLink {
+  tournamentId: string;
+  fixtureId: string;
+  home: string; // entrantId playing as team A
+  away: string; // entrantId playing as team B
+}
+
+export interface Standing {
+  rank: number;
+  entrantId: string;
+  name: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+}
+
+export interface ActionResult {
+  success: boolean;
+  message?: string;
+  position?: Position;
+  targetPosition?: Position;
+  distance?: number;
+  speed?: number;
+  ballVelocity?: Velocity;
+  tackleSuccess?: boolean;
+  ballIsFree?: boolean;
+  saveSuccess?: boolean;
+  saveChance?: number; // probability the save had of succeeding
+  foul?: boolean; // the missed tackle was a foul
+  offside?: boolean; // the pass was called back for offside
+  card?: CardType;
+  lost?: boolean; // Not applied because of concurrent updates or a timeout - safe to retry
 }
 
 // Perception types for agents
@@ -114,6 +503,8 @@ export interface PlayerPerception {
   position: Position;
   distanceFromYou: number;
   hasBall: boolean;
+  yellowCards: number;
+  offside?: boolean; // teammates only - a pass to them now would be offside
   canPassTo?: boolean;
   isOpen?: boolean;
 }
@@ -133,7 +524,7 @@ export interface GoalPerception {
 }
 
 export interface ActionRecommendation {
-  action: 'move' | 'pass' | 'shoot' | 'tackle' | 'wait';
+  action: 'move' | 'pass' | 'shoot' | 'tackle' | 'save' | 'wait';
   reason: string;
   priority: 'high' | 'medium' | 'low';
   passTargets?: Array<{
@@ -146,6 +537,7 @@ export interface ActionRecommendation {
 
 export interface PerceptionData {
   yourPlayer: Player;
+  home: Position; // your formation spot on the current ends - where kickoffs line you up
   ball: BallPerception;
   teammates: PlayerPerception[];
   opponents: PlayerPerception[];
@@ -158,10 +550,44 @@ export interface PerceptionData {
     height: number;
   };
   recommendations: ActionRecommendation;
+  save?: { // goalkeepers only
+    inPenaltyArea: boolean; // you can only handle the ball inside your own box
+    canReach: boolean; // loose ball within SAVE_DISTANCE
+    chance: number; // probability a save attempt right now would hold the ball
+  };
+  discipline: {
+    fouls: number; // committed by you this match
+    yellowCards: number;
+    onYellow: boolean; // one more yellow card and you're sent off
+    sentOff: Array<{ id: string; name: string; team: TeamId }>;
+  };
+  restart?: {
+    type: RestartType;
+    yourTeam: boolean; // your team puts the ball back in play
+    youTakeIt: boolean; // you're on the spot with the ball - pass (or shoot, except from a throw-in)
+    position: Position;
+  };
   gameState: {
     status: GameStatus;
     score: Score;
     timeElapsed?: number;
+    timeRemaining?: number; // ms of match time left, undefined without a time limit
+    half: 1 | 2;
+    kickoffTeam?: TeamId; // whose kickoff it is while status is 'kickoff'
+  };
+}
+
+// What a team controller sees: every teammate's own perception in one read
+export interface TeamPerception {
+  team: TeamId;
+  controller?: string; // name of the side's controller, if it has one
+  ball: {
+    position: Position;
+    velocity?: Velocity;
+    possession: 'team' | 'opponent' | 'free';
+    carrierId?: string;
   };
+  players: Record<string, PerceptionData>; // playerId -> that player's perception
+  gameState: PerceptionData['gameState'];
 }
 
@@ -0,0 +1,38 @@
+import { startGameLoop, stopGameLoop } from "@/lib/gameLoop";
+import { startBotRunner, stopBotRunner, isBotRunnerEnabled } from "@/lib/botRunner";
+
+/**
+ * Standalone game loop worker.
+ *
+ * Usage: GAME_LOOP=worker npm run worker
+ * The Next.js server must also run with GAME_LOOP=worker so its routes
+ * queue actions for this process instead of simulating themselves.
+ * Bot players are driven from here too when BOTS=on.
+ */
+
+async function main() {
+  if (process.env.GAME_STORE === "memory") {
+    throw new Error("GAME_STORE=memory can't be shared with a separate worker - use GAME_LOOP=in-process instead");
+  }
+
+  if (process.env.GAME_LOOP !== "worker") {
+    console.warn("GAME_LOOP is not set to 'worker' - API routes will keep simulating on their own");
+  }
+
+  await startGameLoop();
+  if (isBotRunnerEnabled()) await startBotRunner();
+
+  const shutdown = async () => {
+    await stopBotRunner();
+    await stopGameLoop();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("Game loop worker failed to start:", error);
+  process.exit(1);
+});